@@ -1,11 +1,12 @@
 /**
  * Background entry point for Notes Collector extension
  */
-import { StorageData } from './types';
-import { STORAGE_KEY, getStorageData, notifySidebar, notifyTab } from './background/storage';
+import { ensureStorageReady, notifySidebar, notifyTab } from './background/storage';
+import { getStorageData } from './background/store';
 import { createContextMenu, updateContextMenu } from './background/contextMenu';
 import { setupMessaging } from './background/messaging';
 import { toggleSiteEnabled } from './background/handlers/siteEnabledHandler';
+import { purgeExpiredTrash } from './background/handlers/trashHandler';
 import { isUrlDisabled } from './utils/url';
 
 if (process.env.NODE_ENV === 'development') {
@@ -19,29 +20,20 @@ browser.runtime.onInstalled.addListener(() => {
       console.warn('Notes Collector: Extension installed');
     }
 
-    // Initialize storage with empty data structure
-    const result = await browser.storage.local.get(STORAGE_KEY);
-    if (!result[STORAGE_KEY]) {
-      const initialData: StorageData = {
-        items: [],
-        nextOrder: 0,
-        disabledDomains: [],
-      };
-      await browser.storage.local.set({ [STORAGE_KEY]: initialData });
-    } else {
-      // Ensure disabledDomains exists
-      const data = result[STORAGE_KEY] as StorageData;
-      if (!data.disabledDomains) {
-        data.disabledDomains = [];
-        await browser.storage.local.set({ [STORAGE_KEY]: data });
-      }
-    }
+    // Initialize or migrate storage to the current schema
+    await ensureStorageReady();
 
     // Create context menu
     createContextMenu();
   })();
 });
 
+// Run pending storage migrations as soon as the background starts, then drop expired trash
+browser.runtime.onStartup.addListener(() => {
+  void ensureStorageReady().then(purgeExpiredTrash);
+});
+void ensureStorageReady().then(purgeExpiredTrash);
+
 // Setup message listeners
 setupMessaging();
 
@@ -0,0 +1,273 @@
+/**
+ * Handler for exporting stored data to a JSON backup and importing it back
+ */
+import {
+  BackupFile,
+  CapturedItem,
+  Collection,
+  ImportMode,
+  ImportResult,
+  MessageResponse,
+  StorageData,
+} from '../../types';
+import { ImportError, ItemLimitError, NotesCollectorError } from '../../types/errors';
+import { notifySidebar } from '../storage';
+import { getStorageData, moveToTrash, transact } from '../store';
+import { CURRENT_SCHEMA_VERSION, runMigrations } from '../migrations';
+import { toCollectionsState } from './collectionHandler';
+import {
+  dataUrlToBlob,
+  deleteBlobs,
+  deleteReferencedBlobs,
+  getItemBlobRefs,
+  isBlobRef,
+  putBlob,
+  resolveContentToDataUrl,
+  toBlobRef,
+} from '../../utils/blobStore';
+import { MAX_ITEMS } from '../../utils/storage';
+
+const BACKUP_FORMAT = 'notes-collector-backup';
+const BACKUP_VERSION = 1;
+
+/**
+ * Handler for exporting stored data. Media is read from the blob store and inlined, so the
+ * backup is self-contained.
+ * @param collectionId Export only this collection; omit to export everything
+ */
+export async function handleExportData(
+  collectionId?: string
+): Promise<MessageResponse<BackupFile>> {
+  try {
+    const storageData = await getStorageData();
+    const collections = collectionId
+      ? storageData.collections.filter((c) => c.id === collectionId)
+      : storageData.collections;
+    if (collections.length === 0) return { success: false, error: 'Collection not found' };
+
+    for (const item of collections.flatMap((c) => c.items)) {
+      if (isBlobRef(item.content)) {
+        // A missing blob cannot be restored elsewhere, so its reference is not exported
+        item.content = (await resolveContentToDataUrl(item.content)) ?? '';
+      }
+      const preview = 'preview' in item.metadata ? item.metadata.preview : undefined;
+      if (preview && isBlobRef(preview.imageRef)) {
+        const image = await resolveContentToDataUrl(preview.imageRef);
+        if (image) preview.imageRef = image;
+        else delete preview.imageRef;
+      }
+    }
+
+    const data: StorageData = {
+      schemaVersion: storageData.schemaVersion,
+      collections,
+      activeCollectionId: collectionId || storageData.activeCollectionId,
+      // Per-site preferences belong to the machine, not to a shared collection
+      disabledDomains: collectionId ? [] : storageData.disabledDomains,
+      trash: [],
+      settings: storageData.settings,
+    };
+    return {
+      success: true,
+      data: { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Date.now(), data },
+    };
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for importing a backup
+ * @param backup The parsed contents of a backup file
+ * @param mode Whether to merge the backup into existing data or replace it
+ */
+export async function handleImportData(
+  backup: unknown,
+  mode: ImportMode
+): Promise<MessageResponse<ImportResult>> {
+  const storedBlobIds: string[] = [];
+  try {
+    const imported = structuredClone(readBackup(backup).data);
+    await storeInlineMedia(imported, storedBlobIds);
+    const { data } = await runMigrations(imported);
+
+    const outcome = await transact((draft) => {
+      const result = mode === 'replace' ? replaceData(draft, data) : mergeData(draft, data);
+      if (data.quarantine?.length) {
+        draft.quarantine = [...(draft.quarantine || []), ...data.quarantine];
+      }
+      return { ...result, state: toCollectionsState(draft) };
+    });
+    // The imported items own these blobs now
+    storedBlobIds.length = 0;
+
+    await deleteReferencedBlobs(outcome.discardedContents);
+    notifySidebar({ type: 'DATA_IMPORTED', data: outcome.state });
+    if (mode === 'replace') notifySidebar({ type: 'TRASH_CHANGED' });
+    return { success: true, data: outcome.result };
+  } catch (error) {
+    console.error('Error importing data:', error);
+    await deleteBlobs(storedBlobIds).catch(() => undefined);
+    return {
+      success: false,
+      error: error instanceof NotesCollectorError ? error.userMessage : String(error),
+    };
+  }
+}
+
+/**
+ * Checks the backup envelope and returns it typed
+ * @throws {ImportError} if the file is not a backup this version can read
+ */
+function readBackup(backup: unknown): BackupFile {
+  const file = backup as Partial<BackupFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== BACKUP_FORMAT) {
+    throw new ImportError('the file is not a Notes Collector backup');
+  }
+  if (typeof file.version !== 'number' || file.version > BACKUP_VERSION) {
+    throw new ImportError('the backup was made by a newer version of the extension');
+  }
+  const data = file.data;
+  if (!data || typeof data !== 'object' || !Array.isArray(data.collections)) {
+    throw new ImportError('the backup contains no collections');
+  }
+  if (typeof data.schemaVersion !== 'number' || data.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new ImportError('the backup was made by a newer version of the extension');
+  }
+  return file as BackupFile;
+}
+
+/**
+ * Moves inlined media into the blob store under fresh ids, so imported items can never
+ * share a blob with existing ones. References into another machine's blob store are dropped.
+ * @param storedBlobIds Receives the ids of the written blobs, for cleanup on failure
+ */
+async function storeInlineMedia(data: StorageData, storedBlobIds: string[]) {
+  // Returns the reference to store instead of an inlined value, or undefined to drop it
+  const storeInline = async (value: unknown): Promise<string | undefined> => {
+    if (typeof value !== 'string' || !value.startsWith('data:')) return undefined;
+    const blobId = self.crypto.randomUUID();
+    await putBlob(blobId, dataUrlToBlob(value));
+    storedBlobIds.push(blobId);
+    return toBlobRef(blobId);
+  };
+
+  for (const collection of data.collections) {
+    if (!Array.isArray(collection?.items)) continue;
+    for (const item of collection.items as Partial<CapturedItem>[]) {
+      if (item?.type === 'link') {
+        const preview = (item.metadata as { preview?: { imageRef?: unknown } } | undefined)
+          ?.preview;
+        if (preview?.imageRef === undefined) continue;
+        const imageRef = await storeInline(preview.imageRef);
+        if (imageRef) preview.imageRef = imageRef;
+        else delete preview.imageRef;
+      } else if (item?.type === 'image' || item?.type === 'screenshot') {
+        if (typeof item.content === 'string' && item.content.startsWith('data:')) {
+          item.content = await storeInline(item.content);
+        } else if (isBlobRef(item.content)) {
+          item.content = '';
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Serializes the metadata of an item for comparison. The preview image reference differs
+ * between copies of a link, since every copy stores its own image.
+ */
+function getComparableMetadata(item: CapturedItem): string {
+  return JSON.stringify(item.metadata, (key, value: unknown) =>
+    key === 'imageRef' ? undefined : value
+  );
+}
+
+/**
+ * Checks whether two items are the same capture, so importing a backup twice adds nothing
+ */
+function isSameCapture(a: CapturedItem, b: CapturedItem): boolean {
+  return (
+    a.type === b.type &&
+    a.timestamp === b.timestamp &&
+    getComparableMetadata(a) === getComparableMetadata(b)
+  );
+}
+
+/**
+ * Adds the imported collections to the existing data. Collections with a known id are merged
+ * into their counterpart; items whose id is taken get a new id unless they are the same capture.
+ */
+function mergeData(
+  draft: StorageData,
+  data: StorageData
+): { result: ImportResult; discardedContents: string[] } {
+  const existingItems = new Map(
+    draft.collections.flatMap((c) => c.items).map((item) => [item.id, item])
+  );
+  const result: ImportResult = { collections: 0, items: 0, skipped: 0, renamed: 0 };
+  const discardedContents: string[] = [];
+
+  for (const incoming of data.collections) {
+    const items: CapturedItem[] = [];
+    for (const item of [...incoming.items].sort((a, b) => a.order - b.order)) {
+      const existing = existingItems.get(item.id);
+      if (existing && isSameCapture(existing, item)) {
+        result.skipped++;
+        discardedContents.push(...getItemBlobRefs(item));
+        continue;
+      }
+      if (existing) {
+        item.id = self.crypto.randomUUID();
+        result.renamed++;
+      }
+      existingItems.set(item.id, item);
+      items.push(item);
+    }
+
+    let target: Collection | undefined = draft.collections.find((c) => c.id === incoming.id);
+    if (!target) {
+      target = { ...incoming, items: [], nextOrder: 0 };
+      draft.collections.push(target);
+    }
+    for (const item of items) {
+      item.order = target.nextOrder++;
+      target.items.push(item);
+    }
+    result.collections++;
+    result.items += items.length;
+  }
+
+  if (existingItems.size > MAX_ITEMS) throw new ItemLimitError(MAX_ITEMS);
+
+  draft.disabledDomains = [
+    ...new Set([...(draft.disabledDomains || []), ...(data.disabledDomains || [])]),
+  ];
+  return { result, discardedContents };
+}
+
+/**
+ * Replaces all collections, site preferences and settings with the imported ones. The replaced
+ * items move to the trash as one batch, so importing the wrong file can be undone.
+ */
+function replaceData(
+  draft: StorageData,
+  data: StorageData
+): { result: ImportResult; discardedContents: string[] } {
+  const items = data.collections.reduce((sum, c) => sum + c.items.length, 0);
+  if (items > MAX_ITEMS) throw new ItemLimitError(MAX_ITEMS);
+
+  const batchId = self.crypto.randomUUID();
+  draft.collections.forEach((collection) => {
+    moveToTrash(draft, collection, collection.items, batchId);
+  });
+  draft.collections = data.collections;
+  draft.activeCollectionId = data.activeCollectionId;
+  draft.disabledDomains = data.disabledDomains || [];
+  draft.settings = data.settings;
+  return {
+    result: { collections: data.collections.length, items, skipped: 0, renamed: 0 },
+    discardedContents: [],
+  };
+}
@@ -1,9 +1,54 @@
 /**
- * Handler for capturing links, images, and text
+ * Handler for capturing links, images, text, code and tables
  */
-import { MessageResponse, CapturedItem } from '../../types';
-import { getStorageData, saveStorageData, notifySidebar } from '../storage';
+import {
+  MessageResponse,
+  CapturedItem,
+  ImageMetadata,
+  ImageSize,
+  PageMetadata,
+  TableCell,
+  TextAnchor,
+  VideoFrame,
+} from '../../types';
+import { notifySidebar } from '../storage';
+import { appendItem } from '../store';
 import { checkStorageAvailable, getStorageWarning } from '../../utils/storage';
+import { putBlob, toBlobRef, dataUrlToBlob, deleteBlobs } from '../../utils/blobStore';
+import { tableToCsv } from '../../utils/table';
+import { StorageError } from '../../types/errors';
+import { isPageMetadata, isVideoFrame, normalizePageMetadata } from '../schema';
+import { processImage } from '../mediaPipeline';
+import { unfurlCapturedLink } from './unfurlHandler';
+
+/**
+ * Appends a captured item to the active collection and notifies the sidebar
+ * @param build Creates the item from the order value assigned by the store
+ * @param page Details of the source page, sent by the content script
+ * @returns The stored item and the collection it was added to
+ * @throws If the item was not stored, so callers can remove media they stored for it
+ */
+export async function saveCapturedItem(
+  build: (order: number) => CapturedItem,
+  page?: PageMetadata
+): Promise<{ item: CapturedItem; collectionId: string }> {
+  if (isPageMetadata(page)) normalizePageMetadata(page);
+  const added = await appendItem((order) => ({
+    ...build(order),
+    ...(isPageMetadata(page) ? { page } : {}),
+  }));
+  if (!added) throw new StorageError('Active collection not found');
+
+  notifySidebar({ type: 'ITEM_ADDED', data: added.item, collectionId: added.collectionId });
+  try {
+    const warning = await getStorageWarning();
+    if (warning) notifySidebar({ type: 'STORAGE_WARNING', data: { message: warning } });
+  } catch (error) {
+    console.error('Error checking storage usage:', error);
+  }
+
+  return added;
+}
 
 /**
  * Handler for capturing links
@@ -11,29 +56,27 @@ import { checkStorageAvailable, getStorageWarning } from '../../utils/storage';
 export async function handleCaptureLink(data: {
   href: string;
   text: string;
+  page?: PageMetadata;
 }): Promise<MessageResponse<CapturedItem>> {
   try {
     await checkStorageAvailable();
-    const storageData = await getStorageData();
+    const { item: newItem, collectionId } = await saveCapturedItem(
+      (order) => ({
+        id: self.crypto.randomUUID(),
+        type: 'link',
+        order,
+        timestamp: Date.now(),
+        content: data.href,
+        metadata: {
+          text: data.text,
+          href: data.href,
+        },
+      }),
+      data.page
+    );
 
-    const newItem: CapturedItem = {
-      id: self.crypto.randomUUID(),
-      type: 'link',
-      order: storageData.nextOrder++,
-      timestamp: Date.now(),
-      content: data.href,
-      metadata: {
-        text: data.text,
-        href: data.href,
-      },
-    };
-
-    storageData.items.push(newItem);
-    await saveStorageData(storageData);
-
-    notifySidebar({ type: 'ITEM_ADDED', data: newItem });
-    const warning = await getStorageWarning();
-    if (warning) notifySidebar({ type: 'STORAGE_WARNING', data: { message: warning } });
+    // The preview arrives later as an item update, so capturing stays instant
+    void unfurlCapturedLink(newItem, collectionId);
 
     return { success: true, data: newItem };
   } catch (error) {
@@ -43,76 +86,160 @@ export async function handleCaptureLink(data: {
 }
 
 /**
- * Handler for capturing images
+ * Handler for capturing images, including video frames and rasterized SVGs and canvases
  */
 export async function handleCaptureImage(data: {
   src: string;
   alt: string;
   dataUrl: string;
+  displayedSize?: ImageSize;
+  originalSize?: ImageSize;
+  video?: VideoFrame;
+  format?: ImageMetadata['format'];
+  svg?: string;
+  page?: PageMetadata;
 }): Promise<MessageResponse<CapturedItem>> {
+  const id = self.crypto.randomUUID();
   try {
-    await checkStorageAvailable(data.dataUrl.length * 2);
-    const storageData = await getStorageData();
-
-    const newItem: CapturedItem = {
-      id: self.crypto.randomUUID(),
-      type: 'image',
-      order: storageData.nextOrder++,
-      timestamp: Date.now(),
-      content: data.dataUrl,
-      metadata: {
-        alt: data.alt,
-        originalSrc: data.src,
-      },
-    };
+    // Of the image, only the SVG markup is kept with the item
+    await checkStorageAvailable(data.svg ? data.svg.length * 2 : undefined);
+    // Binary goes to IndexedDB, resized per the media settings; the item only references it
+    await putBlob(id, await processImage(dataUrlToBlob(data.dataUrl)));
 
-    storageData.items.push(newItem);
-    await saveStorageData(storageData);
-
-    notifySidebar({ type: 'ITEM_ADDED', data: newItem });
-    const warning = await getStorageWarning();
-    if (warning) notifySidebar({ type: 'STORAGE_WARNING', data: { message: warning } });
+    const { item: newItem } = await saveCapturedItem(
+      (order) => ({
+        id,
+        type: 'image',
+        order,
+        timestamp: Date.now(),
+        content: toBlobRef(id),
+        metadata: {
+          alt: data.alt,
+          originalSrc: data.src,
+          ...(data.displayedSize ? { displayedSize: data.displayedSize } : {}),
+          ...(data.originalSize ? { originalSize: data.originalSize } : {}),
+          ...(isVideoFrame(data.video) ? { video: data.video } : {}),
+          ...(data.format ? { format: data.format } : {}),
+          ...(data.svg ? { svg: data.svg } : {}),
+        },
+      }),
+      data.page
+    );
 
     return { success: true, data: newItem };
   } catch (error) {
     console.error('Error capturing image:', error);
+    await deleteBlobs([id]).catch(() => undefined);
     return { success: false, error: String(error) };
   }
 }
 
 /**
  * Handler for capturing text
+ * @returns The item and the collection it was added to, for highlighting it on the page
  */
 export async function handleCaptureText(data: {
   text: string;
   sourceUrl: string;
-}): Promise<MessageResponse<CapturedItem>> {
+  markdown?: string;
+  anchor?: TextAnchor;
+  page?: PageMetadata;
+}): Promise<MessageResponse<CapturedItem & { collectionId: string }>> {
   try {
-    await checkStorageAvailable(data.text.length * 2);
-    const storageData = await getStorageData();
+    const anchorLength = data.anchor?.exact.length ?? 0;
+    await checkStorageAvailable(
+      (data.text.length + (data.markdown?.length ?? 0) + anchorLength) * 2
+    );
+    const { item: newItem, collectionId } = await saveCapturedItem(
+      (order) => ({
+        id: self.crypto.randomUUID(),
+        type: 'text',
+        order,
+        timestamp: Date.now(),
+        content: data.text,
+        metadata: {
+          text: data.text,
+          sourceUrl: data.sourceUrl,
+          ...(data.markdown ? { markdown: data.markdown } : {}),
+          ...(data.anchor ? { anchor: data.anchor } : {}),
+        },
+      }),
+      data.page
+    );
+
+    return { success: true, data: { ...newItem, collectionId } };
+  } catch (error) {
+    console.error('Error capturing text:', error);
+    return { success: false, error: String(error) };
+  }
+}
 
-    const newItem: CapturedItem = {
-      id: self.crypto.randomUUID(),
-      type: 'text',
-      order: storageData.nextOrder++,
-      timestamp: Date.now(),
-      content: data.text,
-      metadata: {
-        text: data.text,
-        sourceUrl: data.sourceUrl,
-      },
-    };
+/**
+ * Handler for capturing a code block
+ */
+export async function handleCaptureCode(data: {
+  code: string;
+  language?: string;
+  sourceUrl: string;
+  page?: PageMetadata;
+}): Promise<MessageResponse<CapturedItem>> {
+  try {
+    await checkStorageAvailable(data.code.length * 2);
+    const { item: newItem } = await saveCapturedItem(
+      (order) => ({
+        id: self.crypto.randomUUID(),
+        type: 'code',
+        order,
+        timestamp: Date.now(),
+        content: data.code,
+        metadata: {
+          code: data.code,
+          ...(data.language ? { language: data.language } : {}),
+          sourceUrl: data.sourceUrl,
+        },
+      }),
+      data.page
+    );
 
-    storageData.items.push(newItem);
-    await saveStorageData(storageData);
+    return { success: true, data: newItem };
+  } catch (error) {
+    console.error('Error capturing code:', error);
+    return { success: false, error: String(error) };
+  }
+}
 
-    notifySidebar({ type: 'ITEM_ADDED', data: newItem });
-    const warning = await getStorageWarning();
-    if (warning) notifySidebar({ type: 'STORAGE_WARNING', data: { message: warning } });
+/**
+ * Handler for capturing a table. The CSV form is stored as the content.
+ */
+export async function handleCaptureTable(data: {
+  rows: TableCell[][];
+  caption?: string;
+  sourceUrl: string;
+  page?: PageMetadata;
+}): Promise<MessageResponse<CapturedItem>> {
+  try {
+    const csv = tableToCsv(data.rows);
+    // Rows are stored as well as the CSV, so roughly twice its size
+    await checkStorageAvailable(csv.length * 4);
+    const { item: newItem } = await saveCapturedItem(
+      (order) => ({
+        id: self.crypto.randomUUID(),
+        type: 'table',
+        order,
+        timestamp: Date.now(),
+        content: csv,
+        metadata: {
+          rows: data.rows,
+          ...(data.caption ? { caption: data.caption } : {}),
+          sourceUrl: data.sourceUrl,
+        },
+      }),
+      data.page
+    );
 
     return { success: true, data: newItem };
   } catch (error) {
-    console.error('Error capturing text:', error);
+    console.error('Error capturing table:', error);
     return { success: false, error: String(error) };
   }
 }
@@ -0,0 +1,148 @@
+/**
+ * Handler for managing named collections (creating, renaming, switching, deleting)
+ */
+import { MessageResponse, StorageData, CollectionsState } from '../../types';
+import { notifySidebar } from '../storage';
+import { getStorageData, moveToTrash, transact } from '../store';
+import { createCollection } from '../schema';
+
+/**
+ * Builds the summary sent to the sidebar collection switcher
+ */
+export function toCollectionsState(storageData: StorageData): CollectionsState {
+  return {
+    collections: storageData.collections.map((c) => ({
+      id: c.id,
+      name: c.name,
+      itemCount: c.items.length,
+    })),
+    activeCollectionId: storageData.activeCollectionId,
+  };
+}
+
+/**
+ * Applies a collection change in a single transaction and tells every open sidebar
+ * about the new collection state
+ * @param mutate Modifies the draft, or returns an error message without modifying it
+ */
+async function updateCollections(
+  mutate: (draft: StorageData) => string | null
+): Promise<MessageResponse<CollectionsState>> {
+  const result = await transact((draft) => {
+    const error = mutate(draft);
+    return error ? { error } : { state: toCollectionsState(draft) };
+  });
+  if ('error' in result) return { success: false, error: result.error };
+
+  notifySidebar({ type: 'COLLECTIONS_CHANGED', data: result.state });
+  return { success: true, data: result.state };
+}
+
+/**
+ * Handler for listing collections
+ */
+export async function handleGetCollections(): Promise<MessageResponse<CollectionsState>> {
+  try {
+    const storageData = await getStorageData();
+    return { success: true, data: toCollectionsState(storageData) };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for creating a collection; the new collection becomes active
+ */
+export async function handleCreateCollection(
+  name: string
+): Promise<MessageResponse<CollectionsState>> {
+  try {
+    const trimmed = name.trim();
+    if (!trimmed) return { success: false, error: 'Collection name is required' };
+
+    return await updateCollections((draft) => {
+      const collection = createCollection(trimmed);
+      draft.collections.push(collection);
+      draft.activeCollectionId = collection.id;
+      return null;
+    });
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for renaming a collection
+ */
+export async function handleRenameCollection(
+  id: string,
+  name: string
+): Promise<MessageResponse<CollectionsState>> {
+  try {
+    const trimmed = name.trim();
+    if (!trimmed) return { success: false, error: 'Collection name is required' };
+
+    return await updateCollections((draft) => {
+      const collection = draft.collections.find((c) => c.id === id);
+      if (!collection) return 'Collection not found';
+      collection.name = trimmed;
+      return null;
+    });
+  } catch (error) {
+    console.error('Error renaming collection:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for deleting a collection. Its items move to the trash as one batch, and go to the
+ * active collection if restored. The last remaining collection cannot be deleted.
+ */
+export async function handleDeleteCollection(
+  id: string
+): Promise<MessageResponse<CollectionsState>> {
+  try {
+    let trashed = false;
+    const response = await updateCollections((draft) => {
+      if (draft.collections.length <= 1) return 'Cannot delete the last collection';
+
+      const index = draft.collections.findIndex((c) => c.id === id);
+      if (index === -1) return 'Collection not found';
+
+      const [deleted] = draft.collections.splice(index, 1);
+      if (draft.activeCollectionId === id) {
+        draft.activeCollectionId = draft.collections[Math.max(0, index - 1)].id;
+      }
+      if (deleted.items.length > 0) {
+        moveToTrash(draft, deleted, deleted.items);
+        trashed = true;
+      }
+      return null;
+    });
+
+    if (trashed) notifySidebar({ type: 'TRASH_CHANGED' });
+    return response;
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for switching the active collection that new captures go to
+ */
+export async function handleSetActiveCollection(
+  id: string
+): Promise<MessageResponse<CollectionsState>> {
+  try {
+    return await updateCollections((draft) => {
+      if (!draft.collections.some((c) => c.id === id)) return 'Collection not found';
+      draft.activeCollectionId = id;
+      return null;
+    });
+  } catch (error) {
+    console.error('Error switching collection:', error);
+    return { success: false, error: String(error) };
+  }
+}
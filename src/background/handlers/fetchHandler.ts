@@ -1,22 +1,67 @@
 /**
  * Handler for proxying image fetches (bypassing CSP/CORS)
  */
-import { MessageResponse } from '../../types';
+import { ImageSize, MessageResponse } from '../../types';
+
+// Covers the download too, so a stalled source fails and the caller moves on to the next one
+const FETCH_TIMEOUT_MS = 15000;
+
+/**
+ * Reads the resolution of an image
+ * @returns The size, or undefined if the image cannot be decoded to a bitmap, e.g. an SVG
+ */
+async function getImageSize(blob: Blob): Promise<ImageSize | undefined> {
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const size = { width: bitmap.width, height: bitmap.height };
+    bitmap.close();
+    return size;
+  } catch {
+    return undefined;
+  }
+}
 
 /**
- * Handler for fetching images (bypasses CSP restrictions)
+ * Downloads an image. Error pages and responses that are not images fail.
+ * @param init Extra request options, such as leaving out cookies
+ * @returns The image, with its resolution when it can be decoded
  */
-export async function handleFetchImage(url: string): Promise<MessageResponse<{ dataUrl: string }>> {
+export async function fetchImage(
+  url: string,
+  init: RequestInit = {}
+): Promise<{ blob: Blob; size?: ImageSize }> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
   try {
-    const response = await fetch(url);
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
     const blob = await response.blob();
+    const size = await getImageSize(blob);
+    // Servers may label images vaguely, so content that decodes counts as an image too
+    if (!size && !blob.type.startsWith('image/')) throw new Error('Not an image');
+    return { blob, size };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Handler for fetching images (bypasses CSP restrictions). Failures are reported, so callers
+ * can fall back to another source.
+ * @returns The image as a data URL, with its resolution when it can be decoded
+ */
+export async function handleFetchImage(
+  url: string
+): Promise<MessageResponse<{ dataUrl: string; size?: ImageSize }>> {
+  try {
+    const { blob, size } = await fetchImage(url);
 
     return new Promise((resolve) => {
       const reader = new FileReader();
       reader.onloadend = () => {
         resolve({
           success: true,
-          data: { dataUrl: reader.result as string },
+          data: { dataUrl: reader.result as string, size },
         });
       };
       reader.onerror = () => {
@@ -0,0 +1,44 @@
+/**
+ * Handler for looking up the captured passages of a page, so the content script can
+ * highlight them again
+ */
+import { MessageResponse, PageHighlight } from '../../types';
+import { getStorageData } from '../store';
+
+function stripHash(url: string): string {
+  return url.split('#')[0];
+}
+
+/**
+ * Handler for getting the anchored text items captured on a page, from every collection
+ * @param url URL of the page; the fragment is ignored
+ */
+export async function handleGetPageHighlights(
+  url: string
+): Promise<MessageResponse<PageHighlight[]>> {
+  try {
+    const pageUrl = stripHash(url);
+    const storageData = await getStorageData();
+    const highlights: PageHighlight[] = [];
+    for (const collection of storageData.collections) {
+      for (const item of collection.items) {
+        if (
+          item.type === 'text' &&
+          'anchor' in item.metadata &&
+          item.metadata.anchor &&
+          stripHash(item.metadata.sourceUrl) === pageUrl
+        ) {
+          highlights.push({
+            itemId: item.id,
+            collectionId: collection.id,
+            anchor: item.metadata.anchor,
+          });
+        }
+      }
+    }
+    return { success: true, data: highlights };
+  } catch (error) {
+    console.error('Error getting page highlights:', error);
+    return { success: false, error: String(error) };
+  }
+}
@@ -1,39 +1,156 @@
 /**
  * Handler for managing the collection (deleting, reordering, clearing)
  */
-import { MessageResponse, CapturedItem } from '../../types';
-import { getStorageData, saveStorageData, notifySidebar } from '../storage';
+import { MessageResponse, CapturedItem, ItemChanges } from '../../types';
+import { notifySidebar, getCollection } from '../storage';
+import { getStorageData, deleteItem, updateItem, reorderItems, clearCollection } from '../store';
+import { normalizeTags } from '../../utils/tags';
+import { checkStorageAvailable } from '../../utils/storage';
+import {
+  dataUrlToBlob,
+  deleteBlobs,
+  deleteReferencedBlobs,
+  putBlob,
+  toBlobRef,
+} from '../../utils/blobStore';
+import { processImage } from '../mediaPipeline';
 
 /**
- * Handler for deleting a single item
+ * Handler for getting the items of a collection
  */
-export async function handleDeleteItem(id: string): Promise<MessageResponse> {
+export async function handleGetItems(collectionId?: string): Promise<MessageResponse> {
   try {
     const storageData = await getStorageData();
-    const originalLength = storageData.items.length;
-    storageData.items = storageData.items.filter((item) => item.id !== id);
+    const collection = getCollection(storageData, collectionId);
+    if (!collection) return { success: false, error: 'Collection not found' };
 
-    if (storageData.items.length !== originalLength) {
-      await saveStorageData(storageData);
-      notifySidebar({ type: 'ITEM_DELETED', data: { id } });
-      return { success: true };
-    }
+    return { success: true, data: collection.items };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for deleting a single item. The item moves to the trash; the returned batch ID
+ * restores it.
+ */
+export async function handleDeleteItem(
+  id: string,
+  collectionId?: string
+): Promise<MessageResponse<{ batchId: string }>> {
+  try {
+    const deleted = await deleteItem(id, collectionId);
+    if (!deleted) return { success: false, error: 'Item not found' };
 
-    return { success: false, error: 'Item not found' };
+    notifySidebar({ type: 'ITEM_DELETED', data: { id }, collectionId: deleted.collectionId });
+    notifySidebar({ type: 'TRASH_CHANGED' });
+    return { success: true, data: { batchId: deleted.batchId } };
   } catch (error) {
     console.error('Error deleting item:', error);
     return { success: false, error: String(error) };
   }
 }
 
+/**
+ * Handler for editing an item's title, note and tags. Empty values remove the field.
+ */
+export async function handleUpdateItem(
+  id: string,
+  changes: ItemChanges,
+  collectionId?: string
+): Promise<MessageResponse<CapturedItem>> {
+  try {
+    const updated = await updateItem(
+      id,
+      (item) => {
+        for (const key of ['title', 'note'] as const) {
+          if (!(key in changes)) continue;
+          const value = changes[key]?.trim();
+          if (value) {
+            item[key] = value;
+          } else {
+            delete item[key];
+          }
+        }
+        if (changes.tags) {
+          const tags = normalizeTags(changes.tags);
+          if (tags.length > 0) {
+            item.tags = tags;
+          } else {
+            delete item.tags;
+          }
+        }
+      },
+      collectionId
+    );
+    if (!updated) return { success: false, error: 'Item not found' };
+
+    notifySidebar({ type: 'ITEM_UPDATED', data: updated.item, collectionId: updated.collectionId });
+    return { success: true, data: updated.item };
+  } catch (error) {
+    console.error('Error updating item:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for replacing the image of an image or screenshot item, e.g. with an annotated
+ * version. The previous image is deleted rather than kept, since it may hold what was redacted.
+ */
+export async function handleUpdateItemImage(
+  id: string,
+  dataUrl: string,
+  collectionId?: string
+): Promise<MessageResponse<CapturedItem>> {
+  const blobId = self.crypto.randomUUID();
+  try {
+    await checkStorageAvailable();
+    await putBlob(blobId, await processImage(dataUrlToBlob(dataUrl)));
+
+    const replaced: { content?: string } = {};
+    const updated = await updateItem(
+      id,
+      (item) => {
+        if (item.type !== 'image' && item.type !== 'screenshot') return;
+        replaced.content = item.content;
+        item.content = toBlobRef(blobId);
+        // The vector source of an SVG no longer matches the edited image
+        if ('svg' in item.metadata) delete item.metadata.svg;
+      },
+      collectionId
+    );
+    if (!updated || replaced.content === undefined) {
+      await deleteBlobs([blobId]);
+      return { success: false, error: updated ? 'Item has no image' : 'Item not found' };
+    }
+
+    // The item references the new blob now, so failing here must not remove it
+    await deleteReferencedBlobs([replaced.content]).catch((error) =>
+      console.error('Error deleting previous image:', error)
+    );
+    notifySidebar({ type: 'ITEM_UPDATED', data: updated.item, collectionId: updated.collectionId });
+    return { success: true, data: updated.item };
+  } catch (error) {
+    console.error('Error updating item image:', error);
+    await deleteBlobs([blobId]).catch(() => undefined);
+    return { success: false, error: String(error) };
+  }
+}
+
 /**
  * Handler for reordering items
  */
-export async function handleReorderItems(items: CapturedItem[]): Promise<MessageResponse> {
+export async function handleReorderItems(
+  items: CapturedItem[],
+  collectionId?: string
+): Promise<MessageResponse> {
   try {
-    const storageData = await getStorageData();
-    storageData.items = items;
-    await saveStorageData(storageData);
+    const found = await reorderItems(
+      items.map((item) => item.id),
+      collectionId
+    );
+    if (!found) return { success: false, error: 'Collection not found' };
+
     return { success: true };
   } catch (error) {
     console.error('Error reordering items:', error);
@@ -42,17 +159,18 @@ export async function handleReorderItems(items: CapturedItem[]): Promise<Message
 }
 
 /**
- * Handler for clearing all items
+ * Handler for clearing all items. The items move to the trash as one batch.
  */
-export async function handleClearAll(): Promise<MessageResponse> {
+export async function handleClearAll(
+  collectionId?: string
+): Promise<MessageResponse<{ batchId: string; count: number }>> {
   try {
-    const storageData = await getStorageData();
-    storageData.items = [];
-    storageData.nextOrder = 0;
-    await saveStorageData(storageData);
+    const cleared = await clearCollection(collectionId);
+    if (!cleared) return { success: false, error: 'Collection not found' };
 
-    notifySidebar({ type: 'ITEMS_CLEARED' });
-    return { success: true };
+    notifySidebar({ type: 'ITEMS_CLEARED', collectionId: cleared.collectionId });
+    notifySidebar({ type: 'TRASH_CHANGED' });
+    return { success: true, data: { batchId: cleared.batchId, count: cleared.items.length } };
   } catch (error) {
     console.error('Error clearing items:', error);
     return { success: false, error: String(error) };
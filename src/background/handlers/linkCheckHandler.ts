@@ -0,0 +1,202 @@
+/**
+ * Handler for checking captured URLs for redirects and dead pages
+ */
+import { CapturedItem, LinkCheck, MessageResponse } from '../../types';
+import { getCollection, notifySidebar } from '../storage';
+import { deleteItems, getStorageData, updateItems } from '../store';
+
+const CHECK_CONCURRENCY = 4;
+const CHECK_TIMEOUT_MS = 10000;
+
+// Statuses of a page that exists but refuses anonymous requests, such as a login wall or
+// bot protection. Reporting these as broken would invite deleting working links.
+const REACHABLE_ERROR_STATUSES = new Set([401, 403, 429]);
+
+type LinkCheckResult = Omit<LinkCheck, 'checkedAt'>;
+
+/**
+ * Picks the URL checked for an item: a link's target, else the page it was captured from
+ */
+function getCheckedUrl(item: CapturedItem): string | undefined {
+  const metadata = item.metadata as unknown as Record<string, unknown>;
+  const url =
+    item.type === 'link'
+      ? metadata.href
+      : typeof metadata.sourceUrl === 'string'
+        ? metadata.sourceUrl
+        : item.page?.url;
+  return typeof url === 'string' && /^https?:/.test(url) ? url : undefined;
+}
+
+/**
+ * Points an item at a new URL, in the field getCheckedUrl reads
+ */
+function setCheckedUrl(item: CapturedItem, url: string) {
+  const metadata = item.metadata as unknown as Record<string, unknown>;
+  if (item.type === 'link') {
+    if (metadata.text === metadata.href) metadata.text = url;
+    metadata.href = url;
+    item.content = url;
+  } else if (typeof metadata.sourceUrl === 'string') {
+    metadata.sourceUrl = url;
+  } else if (item.page) {
+    item.page.url = url;
+  }
+}
+
+async function request(url: string, method: 'HEAD' | 'GET'): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), CHECK_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method,
+      credentials: 'omit',
+      redirect: 'follow',
+      signal: controller.signal,
+    });
+    // Only the status matters, so the body of a GET is not downloaded
+    await response.body?.cancel().catch(() => undefined);
+    return response;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Requests a URL with HEAD, falling back to GET for servers that reject or mishandle HEAD
+ */
+async function checkUrl(url: string): Promise<LinkCheckResult> {
+  let response: Response | null = null;
+  try {
+    response = await request(url, 'HEAD');
+  } catch {
+    // Some servers drop HEAD requests; GET decides
+  }
+  if (!response?.ok) {
+    try {
+      response = await request(url, 'GET');
+    } catch (error) {
+      if (!response) {
+        console.warn('Link check failed:', url, error);
+        return { status: 'unreachable' };
+      }
+    }
+  }
+
+  if (!response.ok && !REACHABLE_ERROR_STATUSES.has(response.status)) {
+    return { status: 'broken', statusCode: response.status };
+  }
+  const finalUrl = response.url.split('#')[0];
+  if (response.redirected && finalUrl && finalUrl !== url.split('#')[0]) {
+    return { status: 'redirected', finalUrl };
+  }
+  return { status: 'live' };
+}
+
+/**
+ * Checks each URL once, with at most CHECK_CONCURRENCY requests in flight
+ */
+async function checkUrls(urls: string[]): Promise<Map<string, LinkCheckResult>> {
+  const results = new Map<string, LinkCheckResult>();
+  const queue = [...urls];
+  const worker = async () => {
+    for (let url = queue.shift(); url !== undefined; url = queue.shift()) {
+      results.set(url, await checkUrl(url));
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CHECK_CONCURRENCY, urls.length) }, worker));
+  return results;
+}
+
+/**
+ * Handler for checking the URLs of every item in a collection. Each item gets the result of
+ * its URL; items without a web URL are skipped.
+ * @returns How many items were found live, redirected, broken and unreachable
+ */
+export async function handleCheckLinks(
+  collectionId?: string
+): Promise<MessageResponse<Record<LinkCheck['status'], number>>> {
+  try {
+    const collection = getCollection(await getStorageData(), collectionId);
+    if (!collection) return { success: false, error: 'Collection not found' };
+
+    const urls = collection.items.map(getCheckedUrl).filter((url): url is string => !!url);
+    const results = await checkUrls([...new Set(urls)]);
+
+    const checkedAt = Date.now();
+    const counts = { live: 0, redirected: 0, broken: 0, unreachable: 0 };
+    const updated = await updateItems((item) => {
+      const url = getCheckedUrl(item);
+      // Items added or edited during the check keep their previous result
+      const result = url && results.get(url);
+      if (!result) return false;
+      item.linkCheck = { ...result, checkedAt };
+      counts[result.status]++;
+      return true;
+    }, collection.id);
+    if (!updated) return { success: false, error: 'Collection not found' };
+
+    notifySidebar({
+      type: 'ITEMS_UPDATED',
+      data: updated.items,
+      collectionId: updated.collectionId,
+    });
+    return { success: true, data: counts };
+  } catch (error) {
+    console.error('Error checking links:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for pointing every redirected item at the URL it redirects to
+ * @returns The number of items updated
+ */
+export async function handleUpdateRedirectedLinks(
+  collectionId?: string
+): Promise<MessageResponse<{ count: number }>> {
+  try {
+    const updated = await updateItems((item) => {
+      const check = item.linkCheck;
+      if (check?.status !== 'redirected' || !check.finalUrl) return false;
+      setCheckedUrl(item, check.finalUrl);
+      item.linkCheck = { status: 'live', checkedAt: check.checkedAt };
+      return true;
+    }, collectionId);
+    if (!updated) return { success: false, error: 'Collection not found' };
+
+    notifySidebar({
+      type: 'ITEMS_UPDATED',
+      data: updated.items,
+      collectionId: updated.collectionId,
+    });
+    return { success: true, data: { count: updated.items.length } };
+  } catch (error) {
+    console.error('Error updating redirected links:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for moving every item whose URL was found broken to the trash, as one batch.
+ * Unreachable items are kept, since their request may have failed on our side.
+ */
+export async function handleDeleteBrokenLinks(
+  collectionId?: string
+): Promise<MessageResponse<{ batchId: string; count: number }>> {
+  try {
+    const deleted = await deleteItems((item) => item.linkCheck?.status === 'broken', collectionId);
+    if (!deleted) return { success: false, error: 'Collection not found' };
+
+    notifySidebar({
+      type: 'ITEMS_DELETED',
+      data: { ids: deleted.items.map((item) => item.id) },
+      collectionId: deleted.collectionId,
+    });
+    notifySidebar({ type: 'TRASH_CHANGED' });
+    return { success: true, data: { batchId: deleted.batchId, count: deleted.items.length } };
+  } catch (error) {
+    console.error('Error deleting broken links:', error);
+    return { success: false, error: String(error) };
+  }
+}
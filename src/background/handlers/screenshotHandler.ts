@@ -1,9 +1,11 @@
 /**
  * Handler for screenshots and cropping
  */
-import { MessageResponse, CapturedItem } from '../../types';
-import { getStorageData, saveStorageData, notifySidebar } from '../storage';
-import { checkStorageAvailable, getStorageWarning } from '../../utils/storage';
+import { MessageResponse, CapturedItem, PageMetadata } from '../../types';
+import { saveCapturedItem } from './captureHandler';
+import { checkStorageAvailable } from '../../utils/storage';
+import { putBlob, toBlobRef, dataUrlToBlob, deleteBlobs } from '../../utils/blobStore';
+import { processImage } from '../mediaPipeline';
 
 /**
  * Handler for requested screenshots (interactive mode)
@@ -34,34 +36,36 @@ export async function handleCaptureScreenshot(data: {
   dataUrl: string;
   sourceUrl: string;
   dimensions: { width: number; height: number; x: number; y: number };
+  selector?: string;
+  page?: PageMetadata;
 }): Promise<MessageResponse<CapturedItem>> {
+  const id = self.crypto.randomUUID();
   try {
-    await checkStorageAvailable(data.dataUrl.length * 2);
-    const storageData = await getStorageData();
+    await checkStorageAvailable();
+    // Binary goes to IndexedDB, resized per the media settings; the item only references it
+    await putBlob(id, await processImage(dataUrlToBlob(data.dataUrl)));
 
-    const newItem: CapturedItem = {
-      id: self.crypto.randomUUID(),
-      type: 'screenshot',
-      order: storageData.nextOrder++,
-      timestamp: Date.now(),
-      content: data.dataUrl,
-      metadata: {
-        alt: `Screenshot from ${new URL(data.sourceUrl).hostname}`,
-        sourceUrl: data.sourceUrl,
-        dimensions: data.dimensions,
-      },
-    };
-
-    storageData.items.push(newItem);
-    await saveStorageData(storageData);
-
-    notifySidebar({ type: 'ITEM_ADDED', data: newItem });
-    const warning = await getStorageWarning();
-    if (warning) notifySidebar({ type: 'STORAGE_WARNING', data: { message: warning } });
+    const { item: newItem } = await saveCapturedItem(
+      (order) => ({
+        id,
+        type: 'screenshot',
+        order,
+        timestamp: Date.now(),
+        content: toBlobRef(id),
+        metadata: {
+          alt: `Screenshot from ${new URL(data.sourceUrl).hostname}`,
+          sourceUrl: data.sourceUrl,
+          dimensions: data.dimensions,
+          ...(data.selector ? { selector: data.selector } : {}),
+        },
+      }),
+      data.page
+    );
 
     return { success: true, data: newItem };
   } catch (error) {
     console.error('Error capturing screenshot:', error);
+    await deleteBlobs([id]).catch(() => undefined);
     return { success: false, error: String(error) };
   }
 }
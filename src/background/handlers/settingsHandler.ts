@@ -0,0 +1,49 @@
+/**
+ * Handler for reading and changing user settings
+ */
+import { MessageResponse, Settings } from '../../types';
+import { notifySidebar } from '../storage';
+import { getStorageData, transact } from '../store';
+import { DEFAULT_SETTINGS, SETTING_CHOICES } from '../schema';
+
+/**
+ * Handler for getting the current settings
+ */
+export async function handleGetSettings(): Promise<MessageResponse<Settings>> {
+  try {
+    const storageData = await getStorageData();
+    return { success: true, data: storageData.settings };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for changing one or more settings. Unknown keys and values of the wrong type or out of
+ * range are ignored.
+ */
+export async function handleUpdateSettings(
+  changes: Partial<Settings>
+): Promise<MessageResponse<Settings>> {
+  try {
+    const settings = await transact((draft) => {
+      const next: Record<string, unknown> = { ...draft.settings };
+      for (const [key, value] of Object.entries(changes)) {
+        if (typeof value === 'number' && !(Number.isFinite(value) && value > 0)) continue;
+        if (key === 'imageQuality' && (value as number) > 100) continue;
+        if (SETTING_CHOICES[key as keyof Settings]?.includes(value) === false) continue;
+        if (key in DEFAULT_SETTINGS && typeof value === typeof next[key]) {
+          next[key] = value;
+        }
+      }
+      draft.settings = next as unknown as Settings;
+      return draft.settings;
+    });
+
+    notifySidebar({ type: 'SETTINGS_CHANGED', data: settings });
+    return { success: true, data: settings };
+  } catch (error) {
+    console.error('Error updating settings:', error);
+    return { success: false, error: String(error) };
+  }
+}
@@ -1,7 +1,8 @@
 /**
  * Handler for domain-based extension enabling/disabling
  */
-import { getStorageData, saveStorageData, notifySidebar } from '../storage';
+import { notifySidebar } from '../storage';
+import { transact } from '../store';
 import { updateContextMenu } from '../contextMenu';
 import { isUrlDisabled } from '../../utils/url';
 
@@ -15,36 +16,37 @@ export async function toggleSiteEnabled(tabId: number) {
     if (!tab.url) return;
 
     const hostname = new URL(tab.url).hostname;
-    const storageData = await getStorageData();
-    const disabledDomains = storageData.disabledDomains || [];
+    const disabledDomains = await transact((storageData) => {
+      const domains = storageData.disabledDomains || [];
 
-    // Find if the exact hostname or any parent domain is currently in the list
-    let index = -1;
-    let foundDomain = hostname;
+      // Find if the exact hostname or any parent domain is currently in the list
+      let index = -1;
+      let foundDomain = hostname;
 
-    const parts = hostname.split('.');
-    for (let i = 0; i <= parts.length - 2; i++) {
-      const domainToCheck = parts.slice(i).join('.');
-      const foundIndex = disabledDomains.indexOf(domainToCheck);
-      if (foundIndex > -1) {
-        index = foundIndex;
-        foundDomain = domainToCheck;
-        break;
+      const parts = hostname.split('.');
+      for (let i = 0; i <= parts.length - 2; i++) {
+        const domainToCheck = parts.slice(i).join('.');
+        const foundIndex = domains.indexOf(domainToCheck);
+        if (foundIndex > -1) {
+          index = foundIndex;
+          foundDomain = domainToCheck;
+          break;
+        }
       }
-    }
 
-    if (index > -1) {
-      // Enable: remove the found domain (could be hostname or parent) from disabled list
-      disabledDomains.splice(index, 1);
-      console.warn('=== BACKGROUND: Enabling domain:', foundDomain);
-    } else {
-      // Disable: add the exact hostname to disabled list
-      disabledDomains.push(hostname);
-      console.warn('=== BACKGROUND: Disabling domain:', hostname);
-    }
+      if (index > -1) {
+        // Enable: remove the found domain (could be hostname or parent) from disabled list
+        domains.splice(index, 1);
+        console.warn('=== BACKGROUND: Enabling domain:', foundDomain);
+      } else {
+        // Disable: add the exact hostname to disabled list
+        domains.push(hostname);
+        console.warn('=== BACKGROUND: Disabling domain:', hostname);
+      }
 
-    storageData.disabledDomains = disabledDomains;
-    await saveStorageData(storageData);
+      storageData.disabledDomains = domains;
+      return domains;
+    });
 
     // Notify all tabs that their enabled state might have changed
     const tabs = await browser.tabs.query({});
@@ -0,0 +1,41 @@
+/**
+ * Handler for reporting how much storage captured items use
+ */
+import { MessageResponse, StorageReport } from '../../types';
+import { getCollection } from '../storage';
+import { getStorageData } from '../store';
+import { getStorageInfo } from '../../utils/storage';
+import { getBlob, getBlobId, getItemBlobRefs } from '../../utils/blobStore';
+
+/**
+ * Handler for measuring each item of a collection: its entry in storage.local, which counts
+ * towards the quota, and its images in the blob store
+ */
+export async function handleGetStorageReport(
+  collectionId?: string
+): Promise<MessageResponse<StorageReport>> {
+  try {
+    const collection = getCollection(await getStorageData(), collectionId);
+    if (!collection) return { success: false, error: 'Collection not found' };
+
+    const encoder = new TextEncoder();
+    const items = await Promise.all(
+      collection.items.map(async (item) => {
+        const blobs = await Promise.all(
+          getItemBlobRefs(item).map((ref) => getBlob(getBlobId(ref)))
+        );
+        return {
+          id: item.id,
+          dataBytes: encoder.encode(JSON.stringify(item)).length,
+          mediaBytes: blobs.reduce((sum, blob) => sum + (blob?.size ?? 0), 0),
+        };
+      })
+    );
+
+    const { bytesInUse, quotaBytes } = await getStorageInfo();
+    return { success: true, data: { bytesInUse, quotaBytes, items } };
+  } catch (error) {
+    console.error('Error building storage report:', error);
+    return { success: false, error: String(error) };
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Handler for the trash: listing, restoring and permanently deleting removed items
+ */
+import { MessageResponse, TrashedItem } from '../../types';
+import { notifySidebar } from '../storage';
+import { getStorageData, removeFromTrash, restoreTrashBatch } from '../store';
+import { deleteReferencedBlobs, getItemBlobRefs } from '../../utils/blobStore';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Permanently deletes trash entries and the media they own
+ */
+async function deleteFromTrash(shouldRemove: (entry: TrashedItem) => boolean): Promise<number> {
+  const removed = await removeFromTrash(shouldRemove);
+  if (removed.length > 0) {
+    await deleteReferencedBlobs(removed.flatMap((entry) => getItemBlobRefs(entry.item)));
+    notifySidebar({ type: 'TRASH_CHANGED' });
+  }
+  return removed.length;
+}
+
+/**
+ * Drops trash entries older than the retention period from the settings
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  try {
+    const { settings, trash } = await getStorageData();
+    const cutoff = Date.now() - settings.trashRetentionDays * DAY_MS;
+    if (!trash.some((entry) => entry.deletedAt < cutoff)) return;
+
+    await deleteFromTrash((entry) => entry.deletedAt < cutoff);
+  } catch (error) {
+    console.error('Error purging trash:', error);
+  }
+}
+
+/**
+ * Handler for listing the trash, most recently deleted first
+ */
+export async function handleGetTrash(): Promise<MessageResponse<TrashedItem[]>> {
+  try {
+    await purgeExpiredTrash();
+    const storageData = await getStorageData();
+    return {
+      success: true,
+      data: [...storageData.trash].sort((a, b) => b.deletedAt - a.deletedAt),
+    };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for restoring a batch of deleted items
+ */
+export async function handleRestoreTrash(batchId: string): Promise<MessageResponse> {
+  try {
+    const collectionIds = await restoreTrashBatch(batchId);
+    if (collectionIds.length === 0) return { success: false, error: 'Nothing to restore' };
+
+    notifySidebar({ type: 'ITEMS_RESTORED', data: { collectionIds } });
+    notifySidebar({ type: 'TRASH_CHANGED' });
+    return { success: true };
+  } catch (error) {
+    console.error('Error restoring items:', error);
+    return { success: false, error: String(error) };
+  }
+}
+
+/**
+ * Handler for permanently deleting one batch, or the whole trash
+ */
+export async function handleEmptyTrash(batchId?: string): Promise<MessageResponse> {
+  try {
+    await deleteFromTrash((entry) => !batchId || entry.batchId === batchId);
+    return { success: true };
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return { success: false, error: String(error) };
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Handler for unfurling captured links: fetching the target page to build a preview card
+ */
+import { CapturedItem, LinkPreview } from '../../types';
+import { getMetaContent } from '../../utils/dom';
+import { deleteReferencedBlobs, putBlob, toBlobRef } from '../../utils/blobStore';
+import { notifySidebar } from '../storage';
+import { updateItem } from '../store';
+import { processImage } from '../mediaPipeline';
+import { fetchImage } from './fetchHandler';
+
+const FETCH_TIMEOUT_MS = 8000;
+// Preview tags live in the head, so the rest of a large page is never downloaded
+const MAX_RESPONSE_BYTES = 512 * 1024;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 100;
+const MAX_DESCRIPTION_LENGTH = 300;
+// Preview images are shown as small cards, so a copy this large is plenty
+const PREVIEW_IMAGE_SIZE = 320;
+
+// Recent lookups by URL. Failures are cached too, so a dead link is not refetched on every
+// capture, and concurrent captures of one URL share a single request.
+const cache = new Map<string, { preview: Promise<LinkPreview | null>; expiresAt: number }>();
+
+/**
+ * Reads a response body as text, stopping once the size cap is reached
+ */
+async function readLimitedText(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return '';
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_RESPONSE_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel().catch(() => undefined);
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+
+  const charset = /charset=([\w-]+)/i.exec(response.headers.get('content-type') || '')?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * Extracts the OpenGraph or Twitter card details of a fetched page
+ * @param baseUrl URL the page was served from, for resolving a relative image
+ */
+function parsePreview(html: string, baseUrl: string): LinkPreview | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const preview: LinkPreview = {};
+
+  const title =
+    getMetaContent(doc, 'og:title', 'twitter:title') || doc.title.replace(/\s+/g, ' ').trim();
+  if (title) preview.title = title;
+
+  const description = getMetaContent(doc, 'og:description', 'twitter:description', 'description');
+  if (description) preview.description = description.slice(0, MAX_DESCRIPTION_LENGTH);
+
+  const siteName = getMetaContent(doc, 'og:site_name', 'application-name');
+  if (siteName) preview.siteName = siteName;
+
+  const image = getMetaContent(
+    doc,
+    'og:image',
+    'og:image:url',
+    'twitter:image',
+    'twitter:image:src'
+  );
+  if (image) {
+    try {
+      const imageUrl = new URL(image, baseUrl).href;
+      if (/^https?:/.test(imageUrl)) preview.image = imageUrl;
+    } catch {
+      // Malformed image URL; the card is shown without it
+    }
+  }
+
+  return Object.keys(preview).length > 0 ? preview : null;
+}
+
+async function fetchPreview(url: string): Promise<LinkPreview | null> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    // No cookies, so the preview is what any visitor would see
+    const response = await fetch(url, {
+      credentials: 'omit',
+      signal: controller.signal,
+      headers: { Accept: 'text/html' },
+    });
+    if (!response.ok || !/html/i.test(response.headers.get('content-type') || '')) return null;
+    return parsePreview(await readLimitedText(response), response.url || url);
+  } catch (error) {
+    console.warn('Failed to unfurl link:', url, error);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Looks up the preview of a page, from the cache when it was fetched recently
+ * @returns The preview, or null if the page could not be fetched or has no preview details
+ */
+function unfurlUrl(url: string): Promise<LinkPreview | null> {
+  const now = Date.now();
+  const cached = cache.get(url);
+  if (cached && cached.expiresAt > now) return cached.preview;
+
+  cache.forEach((entry, key) => {
+    if (entry.expiresAt <= now) cache.delete(key);
+  });
+  // Maps iterate in insertion order, so the first key is the oldest entry
+  if (cache.size >= MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value as string);
+
+  const preview = fetchPreview(url);
+  cache.set(url, { preview, expiresAt: now + CACHE_TTL_MS });
+  return preview;
+}
+
+/**
+ * Stores a copy of a preview image, so showing the card does not contact the image's host
+ * @returns The blob reference, or undefined if the image could not be downloaded
+ */
+async function storePreviewImage(url: string): Promise<string | undefined> {
+  try {
+    const { blob } = await fetchImage(url, { credentials: 'omit' });
+    const id = self.crypto.randomUUID();
+    await putBlob(id, await processImage(blob, PREVIEW_IMAGE_SIZE));
+    return toBlobRef(id);
+  } catch (error) {
+    console.warn('Failed to store link preview image:', url, error);
+    return undefined;
+  }
+}
+
+/**
+ * Fetches the preview of a newly captured link and stores it on the item, with its own copy of
+ * the preview image
+ * @param collectionId Collection the item was added to
+ */
+export async function unfurlCapturedLink(item: CapturedItem, collectionId: string) {
+  if (item.type !== 'link' || !/^https?:/.test(item.content)) return;
+
+  let imageRef: string | undefined;
+  try {
+    const preview = await unfurlUrl(item.content);
+    if (!preview) return;
+    imageRef = preview.image ? await storePreviewImage(preview.image) : undefined;
+
+    const updated = await updateItem(
+      item.id,
+      (stored) => {
+        if ('href' in stored.metadata) {
+          stored.metadata.preview = { ...preview, ...(imageRef ? { imageRef } : {}) };
+        }
+      },
+      collectionId
+    );
+    if (updated) {
+      notifySidebar({
+        type: 'ITEM_UPDATED',
+        data: updated.item,
+        collectionId: updated.collectionId,
+      });
+    } else {
+      // The link was deleted while its preview was fetched
+      await deleteReferencedBlobs(imageRef ? [imageRef] : []);
+    }
+  } catch (error) {
+    console.error('Error storing link preview:', error);
+    await deleteReferencedBlobs(imageRef ? [imageRef] : []).catch(() => undefined);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Processing of captured images before they are stored
+ *
+ * Images are scaled down to the configured maximum size and re-encoded in the configured format,
+ * so a retina screenshot does not take megabytes. Animated and vector images are stored as
+ * captured, since drawing them to a canvas would flatten them.
+ */
+import { Settings } from '../types';
+import { getStorageData } from './store';
+
+const OUTPUT_TYPES: Record<Exclude<Settings['imageFormat'], 'original'>, string> = {
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+};
+
+// Formats a canvas can encode, so images only scaled down keep their format
+const ENCODABLE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const KEPT_TYPES = ['image/gif', 'image/svg+xml'];
+
+/**
+ * Applies the media settings to a captured image
+ * @param maxDimension Overrides the maximum size from the settings, e.g. for preview images
+ * @returns The image to store, which is the original when processing would not shrink it
+ */
+export async function processImage(blob: Blob, maxDimension?: number): Promise<Blob> {
+  const { settings } = await getStorageData();
+  if (settings.keepOriginalImages || KEPT_TYPES.includes(blob.type)) return blob;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    // Formats the browser cannot decode are stored as they are
+    return blob;
+  }
+
+  try {
+    const maxSize = maxDimension ?? settings.imageMaxDimension;
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const type =
+      settings.imageFormat === 'original'
+        ? ENCODABLE_TYPES.includes(blob.type)
+          ? blob.type
+          : 'image/png'
+        : OUTPUT_TYPES[settings.imageFormat];
+    if (scale === 1 && type === blob.type) return blob;
+
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return blob;
+    if (type === 'image/jpeg') {
+      // JPEG has no transparency, which would otherwise turn black
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const processed = await canvas.convertToBlob({ type, quality: settings.imageQuality / 100 });
+
+    // Re-encoding an already compact image can make it larger; scaled images are smaller anyway
+    return scale === 1 && processed.size >= blob.size ? blob : processed;
+  } catch (error) {
+    console.error('Failed to process image, storing the original:', error);
+    return blob;
+  } finally {
+    bitmap.close();
+  }
+}
@@ -7,7 +7,14 @@ import * as screenshotHandler from './handlers/screenshotHandler';
 import * as itemManagerHandler from './handlers/itemManagerHandler';
 import * as fetchHandler from './handlers/fetchHandler';
 import * as siteEnabledHandler from './handlers/siteEnabledHandler';
-import { getStorageData } from './storage';
+import * as collectionHandler from './handlers/collectionHandler';
+import * as settingsHandler from './handlers/settingsHandler';
+import * as backupHandler from './handlers/backupHandler';
+import * as trashHandler from './handlers/trashHandler';
+import * as linkCheckHandler from './handlers/linkCheckHandler';
+import * as highlightHandler from './handlers/highlightHandler';
+import * as storageReportHandler from './handlers/storageReportHandler';
+import { getStorageData } from './store';
 import { isUrlDisabled } from '../utils/url';
 
 export function setupMessaging() {
@@ -26,18 +33,74 @@ export function setupMessaging() {
           return captureHandler.handleCaptureImage(message.data);
         case 'CAPTURE_TEXT':
           return captureHandler.handleCaptureText(message.data);
+        case 'CAPTURE_CODE':
+          return captureHandler.handleCaptureCode(message.data);
+        case 'CAPTURE_TABLE':
+          return captureHandler.handleCaptureTable(message.data);
         case 'REQUEST_SCREENSHOT':
           return screenshotHandler.handleRequestScreenshot(message.data, sender);
         case 'CAPTURE_SCREENSHOT':
           return screenshotHandler.handleCaptureScreenshot(message.data);
+        case 'CHECK_LINKS':
+          return linkCheckHandler.handleCheckLinks(message.data?.collectionId);
+        case 'UPDATE_REDIRECTED_LINKS':
+          return linkCheckHandler.handleUpdateRedirectedLinks(message.data?.collectionId);
+        case 'DELETE_BROKEN_LINKS':
+          return linkCheckHandler.handleDeleteBrokenLinks(message.data?.collectionId);
+        case 'GET_PAGE_HIGHLIGHTS':
+          return highlightHandler.handleGetPageHighlights(message.data.url);
+        case 'SHOW_ITEM':
+          // Meant for the sidebar, which receives messages from content scripts directly
+          return Promise.resolve({ success: true });
         case 'GET_ITEMS':
-          return handleGetItems();
+          return itemManagerHandler.handleGetItems(message.data?.collectionId);
         case 'DELETE_ITEM':
-          return itemManagerHandler.handleDeleteItem(message.data.id);
+          return itemManagerHandler.handleDeleteItem(message.data.id, message.data.collectionId);
+        case 'UPDATE_ITEM':
+          return itemManagerHandler.handleUpdateItem(
+            message.data.id,
+            message.data.changes,
+            message.data.collectionId
+          );
+        case 'UPDATE_ITEM_IMAGE':
+          return itemManagerHandler.handleUpdateItemImage(
+            message.data.id,
+            message.data.dataUrl,
+            message.data.collectionId
+          );
         case 'REORDER_ITEMS':
-          return itemManagerHandler.handleReorderItems(message.data.items);
+          return itemManagerHandler.handleReorderItems(
+            message.data.items,
+            message.data.collectionId
+          );
         case 'CLEAR_ALL':
-          return itemManagerHandler.handleClearAll();
+          return itemManagerHandler.handleClearAll(message.data?.collectionId);
+        case 'GET_SETTINGS':
+          return settingsHandler.handleGetSettings();
+        case 'UPDATE_SETTINGS':
+          return settingsHandler.handleUpdateSettings(message.data);
+        case 'GET_STORAGE_REPORT':
+          return storageReportHandler.handleGetStorageReport(message.data?.collectionId);
+        case 'GET_COLLECTIONS':
+          return collectionHandler.handleGetCollections();
+        case 'CREATE_COLLECTION':
+          return collectionHandler.handleCreateCollection(message.data.name);
+        case 'RENAME_COLLECTION':
+          return collectionHandler.handleRenameCollection(message.data.id, message.data.name);
+        case 'DELETE_COLLECTION':
+          return collectionHandler.handleDeleteCollection(message.data.id);
+        case 'SET_ACTIVE_COLLECTION':
+          return collectionHandler.handleSetActiveCollection(message.data.id);
+        case 'GET_TRASH':
+          return trashHandler.handleGetTrash();
+        case 'RESTORE_TRASH':
+          return trashHandler.handleRestoreTrash(message.data.batchId);
+        case 'EMPTY_TRASH':
+          return trashHandler.handleEmptyTrash(message.data?.batchId);
+        case 'EXPORT_DATA':
+          return backupHandler.handleExportData(message.data?.collectionId);
+        case 'IMPORT_DATA':
+          return backupHandler.handleImportData(message.data.backup, message.data.mode);
         case 'TOGGLE_SITE_ENABLED':
           if ('tabId' in message.data) {
             return (async () => {
@@ -55,18 +118,6 @@ export function setupMessaging() {
   );
 }
 
-/**
- * Internal handler for GET_ITEMS
- */
-async function handleGetItems(): Promise<MessageResponse> {
-  try {
-    const storageData = await getStorageData();
-    return { success: true, data: storageData.items };
-  } catch (error) {
-    return { success: false, error: String(error) };
-  }
-}
-
 /**
  * Internal handler for CHECK_SITE_ENABLED
  */
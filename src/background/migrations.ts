@@ -0,0 +1,146 @@
+/**
+ * Ordered storage schema migrations
+ *
+ * Each step upgrades data from the previous version to its own `version`. Steps must be
+ * idempotent: data written before versioning existed starts at version 0 and may already
+ * be partially in a newer shape.
+ */
+import { LegacyStorageData, StorageData } from '../types';
+import { putBlob, toBlobRef, dataUrlToBlob } from '../utils/blobStore';
+import {
+  DEFAULT_COLLECTION_NAME,
+  DEFAULT_SETTINGS,
+  createCollection,
+  createDefaultStorageData,
+  sanitizeStorageData,
+} from './schema';
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (data: StorageData) => Promise<StorageData> | StorageData;
+}
+
+/**
+ * v1: moves the single global item list into a default collection
+ */
+function migrateToCollections(data: StorageData): StorageData {
+  if (Array.isArray(data.collections)) return data;
+
+  const legacy = data as unknown as Partial<LegacyStorageData>;
+  const collection = createCollection(DEFAULT_COLLECTION_NAME);
+  collection.items = Array.isArray(legacy.items) ? legacy.items : [];
+  collection.nextOrder =
+    typeof legacy.nextOrder === 'number' ? legacy.nextOrder : collection.items.length;
+
+  return {
+    schemaVersion: data.schemaVersion,
+    collections: [collection],
+    activeCollectionId: collection.id,
+    disabledDomains: legacy.disabledDomains || [],
+    trash: [],
+    settings: { ...DEFAULT_SETTINGS },
+  };
+}
+
+/**
+ * v2: moves image and screenshot data URLs stored inline in items into the blob store
+ */
+async function migrateInlineMedia(data: StorageData): Promise<StorageData> {
+  for (const collection of data.collections) {
+    if (!Array.isArray(collection?.items)) continue;
+    for (const item of collection.items) {
+      if (
+        typeof item?.id === 'string' &&
+        (item.type === 'image' || item.type === 'screenshot') &&
+        typeof item.content === 'string' &&
+        item.content.startsWith('data:')
+      ) {
+        await putBlob(item.id, dataUrlToBlob(item.content));
+        item.content = toBlobRef(item.id);
+      }
+    }
+  }
+  return data;
+}
+
+/**
+ * v3: adds user settings
+ */
+function addSettings(data: StorageData): StorageData {
+  data.settings = { ...DEFAULT_SETTINGS, ...data.settings };
+  return data;
+}
+
+/**
+ * v4: adds the trash for deleted items and its retention setting
+ */
+function addTrash(data: StorageData): StorageData {
+  if (!Array.isArray(data.trash)) data.trash = [];
+  data.settings = { ...DEFAULT_SETTINGS, ...data.settings };
+  return data;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move the item list into a default collection',
+    migrate: migrateToCollections,
+  },
+  {
+    version: 2,
+    description: 'Move inline image data into the blob store',
+    migrate: migrateInlineMedia,
+  },
+  {
+    version: 3,
+    description: 'Add user settings',
+    migrate: addSettings,
+  },
+  {
+    version: 4,
+    description: 'Add the trash',
+    migrate: addTrash,
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Brings stored data up to the current schema version and validates it
+ * @param raw Whatever is currently stored under the storage key
+ * @returns The migrated data and whether it needs to be written back
+ */
+export async function runMigrations(
+  raw: unknown
+): Promise<{ data: StorageData; changed: boolean }> {
+  if (!raw || typeof raw !== 'object') {
+    return { data: createDefaultStorageData(CURRENT_SCHEMA_VERSION), changed: true };
+  }
+
+  let data = raw as StorageData;
+  let changed = false;
+  const fromVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 0;
+
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    // Written by a newer version of the extension; leave it untouched
+    console.warn(
+      `Notes Collector: stored schema v${fromVersion} is newer than supported v${CURRENT_SCHEMA_VERSION}`
+    );
+    return { data, changed: false };
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    if (process.env.NODE_ENV === 'development') {
+      console.warn(`Notes Collector: migrating storage to v${migration.version}`);
+    }
+    data = await migration.migrate(data);
+    data.schemaVersion = migration.version;
+    changed = true;
+  }
+
+  if (sanitizeStorageData(data)) changed = true;
+
+  return { data, changed };
+}
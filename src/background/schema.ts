@@ -0,0 +1,376 @@
+/**
+ * Storage schema: factories for fresh data and validation of stored data
+ */
+import {
+  CapturedItem,
+  Collection,
+  PageMetadata,
+  QuarantinedItem,
+  Settings,
+  StorageData,
+  TrashedItem,
+  VideoFrame,
+} from '../types';
+
+export const DEFAULT_COLLECTION_NAME = 'My Notes';
+
+export const DEFAULT_SETTINGS: Settings = {
+  quickTagPrompt: false,
+  trashRetentionDays: 30,
+  annotateScreenshots: false,
+  imageMaxDimension: 2560,
+  imageFormat: 'webp',
+  imageQuality: 85,
+  keepOriginalImages: false,
+};
+
+// Values accepted for settings that are not free-form
+export const SETTING_CHOICES: Partial<Record<keyof Settings, readonly unknown[]>> = {
+  imageFormat: ['original', 'webp', 'jpeg'],
+};
+
+type UnknownRecord = Record<string, unknown>;
+
+/**
+ * Creates a new, empty collection
+ * @param name The display name of the collection
+ */
+export function createCollection(name: string): Collection {
+  return {
+    id: self.crypto.randomUUID(),
+    name,
+    createdAt: Date.now(),
+    items: [],
+    nextOrder: 0,
+  };
+}
+
+/**
+ * Creates the initial storage data structure with a single default collection
+ * @param schemaVersion The schema version the new data conforms to
+ */
+export function createDefaultStorageData(schemaVersion: number): StorageData {
+  const collection = createCollection(DEFAULT_COLLECTION_NAME);
+  return {
+    schemaVersion,
+    collections: [collection],
+    activeCollectionId: collection.id,
+    disabledDomains: [],
+    trash: [],
+    settings: { ...DEFAULT_SETTINGS },
+  };
+}
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function hasStrings(record: UnknownRecord, keys: string[]): boolean {
+  return keys.every((key) => typeof record[key] === 'string');
+}
+
+function hasNumbers(record: UnknownRecord, keys: string[]): boolean {
+  return keys.every((key) => typeof record[key] === 'number' && Number.isFinite(record[key]));
+}
+
+function isTableCell(cell: unknown): boolean {
+  return (
+    isRecord(cell) &&
+    typeof cell.text === 'string' &&
+    (cell.header === undefined || typeof cell.header === 'boolean') &&
+    (cell.colSpan === undefined || hasNumbers(cell, ['colSpan'])) &&
+    (cell.rowSpan === undefined || hasNumbers(cell, ['rowSpan']))
+  );
+}
+
+const PAGE_METADATA_FIELDS = [
+  'title',
+  'favicon',
+  'canonicalUrl',
+  'siteName',
+  'description',
+  'author',
+  'publishedAt',
+];
+
+/**
+ * Resolves a URL against a base
+ * @returns The absolute URL, or undefined if it is not an http(s) URL
+ */
+function toWebUrl(value: string, base?: string): string | undefined {
+  try {
+    const url = new URL(value, base);
+    return /^https?:$/.test(url.protocol) ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks the source page details attached to an item: a URL and optional string fields
+ */
+export function isPageMetadata(value: unknown): value is PageMetadata {
+  return (
+    isRecord(value) &&
+    typeof value.url === 'string' &&
+    PAGE_METADATA_FIELDS.every((key) => value[key] === undefined || typeof value[key] === 'string')
+  );
+}
+
+/**
+ * Resolves the canonical URL, which the page declares itself, against the page URL, and drops
+ * it unless it is a web URL
+ * @returns Whether the metadata was changed
+ */
+export function normalizePageMetadata(page: PageMetadata): boolean {
+  if (page.canonicalUrl === undefined) return false;
+  const canonicalUrl = toWebUrl(page.canonicalUrl, toWebUrl(page.url));
+  if (canonicalUrl === page.canonicalUrl) return false;
+
+  if (canonicalUrl) page.canonicalUrl = canonicalUrl;
+  else delete page.canonicalUrl;
+  return true;
+}
+
+function isTextAnchor(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    hasStrings(value, ['exact', 'prefix', 'suffix']) &&
+    ['startPath', 'endPath'].every(
+      (key) => value[key] === undefined || typeof value[key] === 'string'
+    ) &&
+    ['startOffset', 'endOffset'].every(
+      (key) => value[key] === undefined || hasNumbers(value, [key])
+    )
+  );
+}
+
+function isLinkCheck(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    ['live', 'redirected', 'broken', 'unreachable'].includes(value.status as string) &&
+    hasNumbers(value, ['checkedAt']) &&
+    (value.finalUrl === undefined || typeof value.finalUrl === 'string') &&
+    (value.statusCode === undefined || hasNumbers(value, ['statusCode']))
+  );
+}
+
+function isImageSize(value: unknown): boolean {
+  return isRecord(value) && hasNumbers(value, ['width', 'height']);
+}
+
+/**
+ * Checks the moment of a video an image was grabbed from. The URL is shown as a link, so it must
+ * be a web URL.
+ */
+export function isVideoFrame(value: unknown): value is VideoFrame {
+  return (
+    isRecord(value) &&
+    hasStrings(value, ['url']) &&
+    toWebUrl(value.url as string) !== undefined &&
+    hasNumbers(value, ['time'])
+  );
+}
+
+function isLinkPreview(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    ['title', 'description', 'image', 'imageRef', 'siteName'].every(
+      (key) => value[key] === undefined || typeof value[key] === 'string'
+    )
+  );
+}
+
+/**
+ * Checks the type-specific metadata of an item
+ */
+function getMetadataError(type: string, metadata: UnknownRecord): string | null {
+  switch (type) {
+    case 'link':
+      return hasStrings(metadata, ['text', 'href']) &&
+        (metadata.preview === undefined || isLinkPreview(metadata.preview))
+        ? null
+        : 'invalid link metadata';
+    case 'image':
+      return hasStrings(metadata, ['alt', 'originalSrc']) &&
+        (metadata.video === undefined || isVideoFrame(metadata.video)) &&
+        ['displayedSize', 'originalSize'].every(
+          (key) => metadata[key] === undefined || isImageSize(metadata[key])
+        ) &&
+        (metadata.format === undefined || ['svg', 'canvas'].includes(metadata.format as string)) &&
+        (metadata.svg === undefined || typeof metadata.svg === 'string')
+        ? null
+        : 'invalid image metadata';
+    case 'text':
+      return hasStrings(metadata, ['text', 'sourceUrl']) &&
+        (metadata.markdown === undefined || typeof metadata.markdown === 'string') &&
+        (metadata.anchor === undefined || isTextAnchor(metadata.anchor))
+        ? null
+        : 'invalid text metadata';
+    case 'code':
+      return hasStrings(metadata, ['code', 'sourceUrl']) &&
+        (metadata.language === undefined || typeof metadata.language === 'string')
+        ? null
+        : 'invalid code metadata';
+    case 'table':
+      return typeof metadata.sourceUrl === 'string' &&
+        (metadata.caption === undefined || typeof metadata.caption === 'string') &&
+        Array.isArray(metadata.rows) &&
+        metadata.rows.every((row) => Array.isArray(row) && row.every(isTableCell))
+        ? null
+        : 'invalid table metadata';
+    case 'screenshot':
+      return hasStrings(metadata, ['alt', 'sourceUrl']) &&
+        isRecord(metadata.dimensions) &&
+        hasNumbers(metadata.dimensions, ['width', 'height', 'x', 'y']) &&
+        (metadata.selector === undefined || typeof metadata.selector === 'string')
+        ? null
+        : 'invalid screenshot metadata';
+    default:
+      return `unknown item type "${type}"`;
+  }
+}
+
+/**
+ * Validates a single stored item
+ * @returns A description of the problem, or null if the item is well-formed
+ */
+export function getItemError(item: unknown): string | null {
+  if (!isRecord(item)) return 'not an object';
+  if (typeof item.id !== 'string' || !item.id) return 'missing id';
+  if (typeof item.type !== 'string') return 'missing type';
+  if (!hasNumbers(item, ['order', 'timestamp'])) return 'invalid order or timestamp';
+  if (typeof item.content !== 'string') return 'invalid content';
+  if (!isRecord(item.metadata)) return 'missing metadata';
+  if (item.title !== undefined && typeof item.title !== 'string') return 'invalid title';
+  if (item.note !== undefined && typeof item.note !== 'string') return 'invalid note';
+  if (
+    item.tags !== undefined &&
+    !(Array.isArray(item.tags) && item.tags.every((tag) => typeof tag === 'string'))
+  ) {
+    return 'invalid tags';
+  }
+  if (item.page !== undefined && !isPageMetadata(item.page)) return 'invalid page metadata';
+  if (item.linkCheck !== undefined && !isLinkCheck(item.linkCheck)) return 'invalid link check';
+  return getMetadataError(item.type, item.metadata);
+}
+
+/**
+ * Brings a valid item up to date with fields whose meaning has changed
+ * @returns Whether the item was changed
+ */
+function normalizeItem(item: CapturedItem): boolean {
+  let changed = item.page ? normalizePageMetadata(item.page) : false;
+  // Before unreachable URLs had their own status, they were broken without a status code
+  if (item.linkCheck?.status === 'broken' && item.linkCheck.statusCode === undefined) {
+    item.linkCheck.status = 'unreachable';
+    changed = true;
+  }
+  return changed;
+}
+
+/**
+ * Validates a single trash entry and the item inside it
+ * @returns A description of the problem, or null if the entry is well-formed
+ */
+function getTrashEntryError(entry: unknown): string | null {
+  if (!isRecord(entry)) return 'not an object';
+  if (typeof entry.collectionId !== 'string' || typeof entry.batchId !== 'string') {
+    return 'missing collection or batch id';
+  }
+  if (!hasNumbers(entry, ['deletedAt'])) return 'invalid deletion time';
+  return getItemError(entry.item);
+}
+
+/**
+ * Validates stored data in place. Malformed items are moved to the quarantine list
+ * rather than dropped, and collection bookkeeping is repaired.
+ * @param data Data already migrated to the current schema layout
+ * @returns Whether anything had to change
+ */
+export function sanitizeStorageData(data: StorageData): boolean {
+  let changed = false;
+  const quarantine: QuarantinedItem[] = Array.isArray(data.quarantine) ? data.quarantine : [];
+  const seenIds = new Set<string>();
+
+  const quarantineItem = (item: unknown, collectionId: string | null, reason: string) => {
+    console.warn(`Notes Collector: quarantined stored item (${reason})`);
+    quarantine.push({ item, collectionId, reason, quarantinedAt: Date.now() });
+    changed = true;
+  };
+
+  const collections: Collection[] = [];
+  for (const entry of Array.isArray(data.collections) ? (data.collections as unknown[]) : []) {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !Array.isArray(entry.items)) {
+      quarantineItem(entry, null, 'malformed collection');
+      continue;
+    }
+
+    const collection = entry as unknown as Collection;
+    const items: CapturedItem[] = [];
+    for (const item of collection.items as unknown[]) {
+      const error = getItemError(item);
+      if (error) {
+        quarantineItem(item, collection.id, error);
+      } else if (seenIds.has((item as CapturedItem).id)) {
+        quarantineItem(item, collection.id, 'duplicate id');
+      } else {
+        seenIds.add((item as CapturedItem).id);
+        if (normalizeItem(item as CapturedItem)) changed = true;
+        items.push(item as CapturedItem);
+      }
+    }
+    collection.items = items;
+
+    if (typeof collection.name !== 'string' || !collection.name.trim()) {
+      collection.name = DEFAULT_COLLECTION_NAME;
+      changed = true;
+    }
+    if (typeof collection.createdAt !== 'number') {
+      collection.createdAt = Date.now();
+      changed = true;
+    }
+    const maxOrder = items.reduce((max, item) => Math.max(max, item.order), -1);
+    if (typeof collection.nextOrder !== 'number' || collection.nextOrder <= maxOrder) {
+      collection.nextOrder = maxOrder + 1;
+      changed = true;
+    }
+
+    collections.push(collection);
+  }
+
+  if (collections.length === 0) {
+    collections.push(createCollection(DEFAULT_COLLECTION_NAME));
+    changed = true;
+  }
+  if (!collections.some((c) => c.id === data.activeCollectionId)) {
+    data.activeCollectionId = collections[0].id;
+    changed = true;
+  }
+  if (!Array.isArray(data.trash)) {
+    data.trash = [];
+    changed = true;
+  }
+  data.trash = data.trash.filter((entry: unknown) => {
+    const error = getTrashEntryError(entry);
+    if (error) quarantineItem(isRecord(entry) ? entry.item : entry, null, `trash: ${error}`);
+    else if (normalizeItem((entry as TrashedItem).item)) changed = true;
+    return !error;
+  });
+
+  if (!Array.isArray(data.disabledDomains)) {
+    data.disabledDomains = [];
+    changed = true;
+  }
+  if (!isRecord(data.settings)) {
+    data.settings = { ...DEFAULT_SETTINGS };
+    changed = true;
+  } else if (Object.keys(DEFAULT_SETTINGS).some((key) => !(key in data.settings))) {
+    data.settings = { ...DEFAULT_SETTINGS, ...data.settings };
+    changed = true;
+  }
+
+  data.collections = collections;
+  if (quarantine.length > 0) data.quarantine = quarantine;
+  return changed;
+}
@@ -1,26 +1,52 @@
 /**
  * Background-specific storage logic for Notes Collector extension
  */
-import { StorageData } from '../types';
+import { Collection, StorageData } from '../types';
 import { safeStorageSet } from '../utils/storage';
+import { runMigrations } from './migrations';
 
 export const STORAGE_KEY = 'notesCollectorData';
 
+let storageReady: Promise<void> | null = null;
+
 /**
- * Gets the current storage data structure
- * @returns The StorageData object
+ * Reads the stored data, migrated and validated. The result is not written back.
  */
-export async function getStorageData(): Promise<StorageData> {
+export async function readStorageData(): Promise<{ data: StorageData; changed: boolean }> {
   const result = await browser.storage.local.get(STORAGE_KEY);
-  return (result[STORAGE_KEY] as StorageData) || { items: [], nextOrder: 0, disabledDomains: [] };
+  return runMigrations(result[STORAGE_KEY]);
+}
+
+/**
+ * Migrates and validates stored data once per background lifetime.
+ * Every read waits for this, so handlers never see data in an outdated shape.
+ */
+export function ensureStorageReady(): Promise<void> {
+  if (!storageReady) {
+    storageReady = (async () => {
+      const { data, changed } = await readStorageData();
+      if (changed) {
+        await safeStorageSet({ [STORAGE_KEY]: data });
+      }
+    })().catch((error) => {
+      // Allow a later call to retry instead of caching the failure
+      storageReady = null;
+      console.error('Storage migration failed:', error);
+      throw error;
+    });
+  }
+  return storageReady;
 }
 
 /**
- * Saves the storage data structure
- * @param data The StorageData object to save
+ * Finds a collection by ID, falling back to the active collection
+ * @param data The StorageData object
+ * @param collectionId Optional ID of the collection to look up
+ * @returns The matching collection, or undefined if an explicit ID was not found
  */
-export async function saveStorageData(data: StorageData): Promise<void> {
-  await safeStorageSet({ [STORAGE_KEY]: data });
+export function getCollection(data: StorageData, collectionId?: string): Collection | undefined {
+  const id = collectionId ?? data.activeCollectionId;
+  return data.collections.find((c) => c.id === id);
 }
 
 /**
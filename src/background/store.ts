@@ -0,0 +1,301 @@
+/**
+ * Transactional store for Notes Collector data
+ *
+ * Every mutation of StorageData in the background goes through this module. Transactions run
+ * one at a time against an in-memory copy, so concurrent captures cannot lose each other's
+ * changes or hand out the same order value. Writes to storage.local are coalesced: while one
+ * write is in flight, later transactions are batched into the next single write.
+ */
+import { CapturedItem, Collection, StorageData, TrashedItem } from '../types';
+import { safeStorageSet } from '../utils/storage';
+import { STORAGE_KEY, ensureStorageReady, getCollection, readStorageData } from './storage';
+
+interface WriteWaiter {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+let cache: StorageData | null = null;
+let queue: Promise<unknown> = Promise.resolve();
+let writeWaiters: WriteWaiter[] = [];
+let isFlushing = false;
+
+async function loadCache(): Promise<StorageData> {
+  if (!cache) {
+    await ensureStorageReady();
+    // Migrated again, in case writing back the migrated data failed
+    cache = (await readStorageData()).data;
+  }
+  return cache;
+}
+
+/**
+ * Writes the latest cached state until no transaction is waiting for persistence. When a write
+ * fails, every transaction not yet persisted fails with it: their changes are only in the cache,
+ * which is dropped so the next transaction starts from what storage actually holds.
+ */
+async function flushWrites() {
+  isFlushing = true;
+  while (writeWaiters.length > 0) {
+    const batch = writeWaiters;
+    writeWaiters = [];
+    try {
+      if (!cache) throw new Error('No data to write');
+      await safeStorageSet({ [STORAGE_KEY]: cache });
+      batch.forEach((waiter) => waiter.resolve());
+    } catch (error) {
+      const failed = [...batch, ...writeWaiters];
+      writeWaiters = [];
+      cache = null;
+      failed.forEach((waiter) => waiter.reject(error));
+    }
+  }
+  isFlushing = false;
+}
+
+function persist(): Promise<void> {
+  return new Promise((resolve, reject) => {
+    writeWaiters.push({ resolve, reject });
+    if (!isFlushing) void flushWrites();
+  });
+}
+
+/**
+ * Runs a mutation against the stored data. Mutations are serialized and applied to a draft,
+ * so a mutator that throws leaves the data untouched. The returned promise settles once the
+ * change has been written to storage.
+ * @param mutate Synchronous function that modifies the draft and returns a result
+ */
+export function transact<T>(mutate: (draft: StorageData) => T): Promise<T> {
+  const run = queue.then(async () => {
+    let base = await loadCache();
+    // A write failing meanwhile drops the cache, whose changes were never stored
+    while (base !== cache) base = await loadCache();
+    const draft = structuredClone(base);
+    const result = mutate(draft);
+    cache = draft;
+    return { result, written: persist() };
+  });
+  // Keep the queue alive after a failed transaction
+  queue = run.catch(() => undefined);
+  return run.then(async ({ result, written }) => {
+    await written;
+    return result;
+  });
+}
+
+/**
+ * Gets a snapshot of the stored data. Changes to the snapshot are not saved.
+ */
+export async function getStorageData(): Promise<StorageData> {
+  await queue;
+  return structuredClone(await loadCache());
+}
+
+/**
+ * Appends a new item to a collection, assigning the next order value
+ * @param build Creates the item from the order value it should use
+ * @param collectionId Target collection; defaults to the active collection
+ * @returns The stored item and the collection it was added to, or null if the collection is gone
+ */
+export function appendItem(
+  build: (order: number) => CapturedItem,
+  collectionId?: string
+): Promise<{ item: CapturedItem; collectionId: string } | null> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    if (!collection) return null;
+
+    const item = build(collection.nextOrder++);
+    collection.items.push(item);
+    return { item, collectionId: collection.id };
+  });
+}
+
+/**
+ * Moves items of a collection to the trash as one batch
+ * @param batchId Adds the items to an existing batch, for changes spanning several collections
+ * @returns The batch ID, which restores the items
+ */
+export function moveToTrash(
+  draft: StorageData,
+  collection: Collection,
+  items: CapturedItem[],
+  batchId: string = self.crypto.randomUUID()
+): string {
+  const deletedAt = Date.now();
+  items.forEach((item) => {
+    draft.trash.push({ item, collectionId: collection.id, batchId, deletedAt });
+  });
+  return batchId;
+}
+
+/**
+ * Moves a single item from a collection to the trash
+ * @returns The removed item, the collection it was in and its trash batch, or null if it was
+ * not found
+ */
+export function deleteItem(
+  id: string,
+  collectionId?: string
+): Promise<{ item: CapturedItem; collectionId: string; batchId: string } | null> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    const index = collection ? collection.items.findIndex((item) => item.id === id) : -1;
+    if (!collection || index === -1) return null;
+
+    const [item] = collection.items.splice(index, 1);
+    return { item, collectionId: collection.id, batchId: moveToTrash(draft, collection, [item]) };
+  });
+}
+
+/**
+ * Moves the items of a collection that match a filter to the trash as one batch
+ * @returns The removed items, the collection and their trash batch, or null if the collection
+ * was not found
+ */
+export function deleteItems(
+  shouldDelete: (item: CapturedItem) => boolean,
+  collectionId?: string
+): Promise<{ items: CapturedItem[]; collectionId: string; batchId: string } | null> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    if (!collection) return null;
+
+    const items = collection.items.filter(shouldDelete);
+    collection.items = collection.items.filter((item) => !shouldDelete(item));
+    return { items, collectionId: collection.id, batchId: moveToTrash(draft, collection, items) };
+  });
+}
+
+/**
+ * Reorders a collection to match the given item IDs. Items missing from the list (for example
+ * captured while the user was dragging) keep their relative order after the listed ones.
+ * @returns Whether the collection exists
+ */
+export function reorderItems(orderedIds: string[], collectionId?: string): Promise<boolean> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    if (!collection) return false;
+
+    const position = new Map(orderedIds.map((id, index) => [id, index]));
+    const sorted = [...collection.items].sort((a, b) => a.order - b.order);
+    const listed = sorted.filter((item) => position.has(item.id));
+    const unlisted = sorted.filter((item) => !position.has(item.id));
+    listed.sort((a, b) => position.get(a.id)! - position.get(b.id)!);
+
+    collection.items = [...listed, ...unlisted];
+    collection.items.forEach((item, index) => {
+      item.order = index;
+    });
+    collection.nextOrder = collection.items.length;
+    return true;
+  });
+}
+
+/**
+ * Applies changes to a single item
+ * @param update Modifies the item in place
+ * @returns The updated item and its collection, or null if it was not found
+ */
+export function updateItem(
+  id: string,
+  update: (item: CapturedItem) => void,
+  collectionId?: string
+): Promise<{ item: CapturedItem; collectionId: string } | null> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    const item = collection?.items.find((i) => i.id === id);
+    if (!collection || !item) return null;
+
+    update(item);
+    return { item, collectionId: collection.id };
+  });
+}
+
+/**
+ * Applies changes to any number of items of a collection in one write
+ * @param update Modifies an item in place, returning whether it changed
+ * @returns The changed items and the collection, or null if the collection was not found
+ */
+export function updateItems(
+  update: (item: CapturedItem) => boolean,
+  collectionId?: string
+): Promise<{ items: CapturedItem[]; collectionId: string } | null> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    return collection
+      ? { items: collection.items.filter(update), collectionId: collection.id }
+      : null;
+  });
+}
+
+/**
+ * Moves every item of a collection to the trash
+ * @returns The removed items, the collection and their trash batch, or null if the collection
+ * was not found
+ */
+export function clearCollection(
+  collectionId?: string
+): Promise<{ items: CapturedItem[]; collectionId: string; batchId: string } | null> {
+  return transact((draft) => {
+    const collection = getCollection(draft, collectionId);
+    if (!collection) return null;
+
+    const items = collection.items;
+    collection.items = [];
+    return { items, collectionId: collection.id, batchId: moveToTrash(draft, collection, items) };
+  });
+}
+
+/**
+ * Puts a trash batch back into the collections it was deleted from, at its original
+ * positions. Items whose collection no longer exists go to the active collection.
+ * @returns The IDs of the collections that received items; empty if the batch was not found
+ */
+export function restoreTrashBatch(batchId: string): Promise<string[]> {
+  return transact((draft) => {
+    const entries = draft.trash.filter((entry) => entry.batchId === batchId);
+    if (entries.length === 0) return [];
+    draft.trash = draft.trash.filter((entry) => entry.batchId !== batchId);
+
+    const takenIds = new Set(draft.collections.flatMap((c) => c.items.map((item) => item.id)));
+    const restored = new Map<Collection, CapturedItem[]>();
+    for (const { item, collectionId } of entries) {
+      const collection = getCollection(draft, collectionId) || getCollection(draft);
+      if (!collection) continue;
+      // An import may have reused the id while the item was in the trash
+      if (takenIds.has(item.id)) item.id = self.crypto.randomUUID();
+      takenIds.add(item.id);
+      restored.set(collection, [...(restored.get(collection) || []), item]);
+    }
+
+    restored.forEach((items, collection) => {
+      // Restored items go before items that took over their order values in the meantime
+      const restoredIds = new Set(items.map((item) => item.id));
+      collection.items = [...items, ...collection.items].sort(
+        (a, b) => a.order - b.order || Number(restoredIds.has(b.id)) - Number(restoredIds.has(a.id))
+      );
+      collection.items.forEach((item, index) => {
+        item.order = index;
+      });
+      collection.nextOrder = collection.items.length;
+    });
+    return [...restored.keys()].map((collection) => collection.id);
+  });
+}
+
+/**
+ * Permanently removes entries from the trash
+ * @param shouldRemove Selects the entries to remove
+ * @returns The removed entries
+ */
+export function removeFromTrash(
+  shouldRemove: (entry: TrashedItem) => boolean
+): Promise<TrashedItem[]> {
+  return transact((draft) => {
+    const removed = draft.trash.filter(shouldRemove);
+    if (removed.length > 0) draft.trash = draft.trash.filter((entry) => !shouldRemove(entry));
+    return removed;
+  });
+}
@@ -0,0 +1,80 @@
+/**
+ * Detection of code blocks and their language, so code is captured with its whitespace intact
+ */
+
+// Class names that name the language directly, e.g. "language-ts" or GitHub's "highlight-source-js"
+const LANGUAGE_CLASS_PATTERN = /^(?:language|lang|highlight-source)-([\w+#.-]+)$/i;
+
+// Highlighter classes that are followed by the language as a separate class: highlight.js
+// ("hljs python") and Pandoc ("sourceCode python")
+const HIGHLIGHTER_CLASSES = new Set(['hljs', 'sourcecode']);
+
+// Classes used alongside the highlighter classes that are not languages
+const NON_LANGUAGE_CLASSES = new Set(['hljs', 'sourcecode', 'numbersource', 'nohighlight']);
+
+/**
+ * Finds the code block containing a node: a `<pre>`, or a `<code>` element displayed as a block.
+ * Inline code in running text is not a block.
+ */
+export function findCodeBlock(node: Node | null): HTMLElement | null {
+  const element = node instanceof Element ? node : node?.parentElement;
+  if (!element) return null;
+
+  const pre = element.closest('pre');
+  if (pre) return pre;
+
+  const code = element.closest('code');
+  return code && getComputedStyle(code).display === 'block' ? code : null;
+}
+
+function getLanguageFromElement(element: Element): string | undefined {
+  const attribute = element.getAttribute('data-lang') || element.getAttribute('data-language');
+  if (attribute) return attribute;
+
+  const classes = Array.from(element.classList);
+  for (const className of classes) {
+    const match = LANGUAGE_CLASS_PATTERN.exec(className);
+    if (match) return match[1];
+  }
+
+  // SyntaxHighlighter: class="brush: ruby;"
+  const brush = classes.indexOf('brush:');
+  if (brush !== -1 && classes[brush + 1]) return classes[brush + 1].replace(/;$/, '');
+
+  if (classes.some((c) => HIGHLIGHTER_CLASSES.has(c.toLowerCase()))) {
+    return classes.find(
+      (c) => !NON_LANGUAGE_CLASSES.has(c.toLowerCase()) && !c.startsWith('hljs-')
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Detects the language of a code block from the class names and data attributes that syntax
+ * highlighters put on the block, its inner `<code>` or its wrapper
+ * @returns The language in lowercase, or undefined if none is marked
+ */
+export function detectCodeLanguage(block: HTMLElement): string | undefined {
+  const candidates: Element[] = [];
+  const inner = block.querySelector('code');
+  if (inner) candidates.push(inner);
+  candidates.push(block);
+  // Wrappers such as GitHub's <div class="highlight highlight-source-ts"><pre>
+  for (let parent = block.parentElement, depth = 0; parent && depth < 2; depth++) {
+    candidates.push(parent);
+    parent = parent.parentElement;
+  }
+
+  for (const candidate of candidates) {
+    const language = getLanguageFromElement(candidate);
+    if (language && language.toLowerCase() !== 'plaintext') return language.toLowerCase();
+  }
+  return undefined;
+}
+
+/**
+ * Drops blank lines before the code and trailing whitespace, keeping the indentation
+ */
+export function trimCode(code: string): string {
+  return code.replace(/^(?:[ \t]*\r?\n)+/, '').replace(/\s+$/, '');
+}
@@ -0,0 +1,167 @@
+/**
+ * Element picker for screenshotting a single DOM element
+ */
+
+let highlight: HTMLDivElement | null = null;
+let label: HTMLDivElement | null = null;
+let isPicking = false;
+
+function createHighlight(): HTMLDivElement {
+  const element = document.createElement('div');
+  element.className = 'notes-collector-picker';
+  element.style.cssText = `
+    position: fixed;
+    border: 2px solid #4a90e2;
+    background: rgba(74, 144, 226, 0.15);
+    pointer-events: none;
+    z-index: 9999999;
+    display: none;
+  `;
+  return element;
+}
+
+function createLabel(): HTMLDivElement {
+  const element = document.createElement('div');
+  element.className = 'notes-collector-picker';
+  element.style.cssText = `
+    position: fixed;
+    padding: 2px 6px;
+    border-radius: 3px;
+    background: #4a90e2;
+    color: white;
+    font: 12px system-ui, -apple-system, sans-serif;
+    pointer-events: none;
+    z-index: 9999999;
+    white-space: nowrap;
+    display: none;
+  `;
+  return element;
+}
+
+/**
+ * Short description of an element for the picker label, e.g. "table.data 640 × 1200"
+ */
+function describe(element: Element): string {
+  const rect = element.getBoundingClientRect();
+  const className = typeof element.className === 'string' ? element.className.trim() : '';
+  const firstClass = className ? `.${className.split(/\s+/)[0]}` : '';
+  return `${element.tagName.toLowerCase()}${firstClass} ${Math.round(rect.width)} × ${Math.round(rect.height)}`;
+}
+
+/**
+ * Starts element picker mode. Hovering outlines the element under the cursor; ArrowUp
+ * selects its parent and ArrowDown goes back towards the hovered element. Click or Enter
+ * picks the element, Escape cancels.
+ * @param onPick Called with the picked element after the picker is removed from the page
+ */
+export function startElementPicker(onPick: (element: Element) => void) {
+  if (isPicking) return;
+  isPicking = true;
+
+  highlight = createHighlight();
+  label = createLabel();
+  document.body.append(highlight, label);
+
+  let current: Element | null = null;
+  // Elements left behind by ArrowUp, so ArrowDown can retrace the path
+  let descendants: Element[] = [];
+
+  const update = () => {
+    if (!highlight || !label) return;
+    if (!current) {
+      highlight.style.display = 'none';
+      label.style.display = 'none';
+      return;
+    }
+
+    const rect = current.getBoundingClientRect();
+    highlight.style.display = 'block';
+    highlight.style.left = `${rect.left}px`;
+    highlight.style.top = `${rect.top}px`;
+    highlight.style.width = `${rect.width}px`;
+    highlight.style.height = `${rect.height}px`;
+
+    label.textContent = describe(current);
+    label.style.display = 'block';
+    label.style.left = `${Math.max(0, rect.left)}px`;
+    label.style.top = `${rect.top > 24 ? rect.top - 22 : Math.max(0, rect.top) + 2}px`;
+  };
+
+  const select = (element: Element | null) => {
+    current = element;
+    update();
+  };
+
+  const handleMouseMove = (e: MouseEvent) => {
+    const target = e.target as Element;
+    if (target === current || target.classList.contains('notes-collector-picker')) return;
+    descendants = [];
+    select(target);
+  };
+
+  const pick = () => {
+    const picked = current;
+    cleanup();
+    // Let the highlight disappear before the page is captured
+    if (picked) setTimeout(() => onPick(picked), 50);
+  };
+
+  const handleClick = (e: MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    pick();
+  };
+
+  // Keep the page from reacting to presses meant for the picker (links, drag starts)
+  const swallow = (e: Event) => {
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    switch (e.key) {
+      case 'Escape':
+        cleanup();
+        break;
+      case 'Enter':
+        pick();
+        break;
+      case 'ArrowUp': {
+        const parent: Element | null = current?.parentElement ?? null;
+        if (current && parent && parent !== document.documentElement) {
+          descendants.push(current);
+          select(parent);
+        }
+        break;
+      }
+      case 'ArrowDown': {
+        const child = descendants.pop() ?? current?.firstElementChild ?? null;
+        if (child) select(child);
+        break;
+      }
+      default:
+        return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+  };
+
+  const cleanup = () => {
+    isPicking = false;
+    highlight?.remove();
+    label?.remove();
+    highlight = null;
+    label = null;
+    document.removeEventListener('mousemove', handleMouseMove, true);
+    document.removeEventListener('mousedown', swallow, true);
+    document.removeEventListener('click', handleClick, true);
+    document.removeEventListener('keydown', handleKeyDown, true);
+    window.removeEventListener('scroll', update, true);
+  };
+
+  document.addEventListener('mousemove', handleMouseMove, true);
+  document.addEventListener('mousedown', swallow, true);
+  document.addEventListener('click', handleClick, true);
+  document.addEventListener('keydown', handleKeyDown, true);
+  window.addEventListener('scroll', update, true);
+}
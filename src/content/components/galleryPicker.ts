@@ -0,0 +1,224 @@
+/**
+ * Gallery picker: an overlay grid of every image on the page for capturing several at once
+ */
+import { PageImage } from '../imageScanner';
+
+const SOURCE_LABELS: Record<PageImage['source'], string> = {
+  img: 'image',
+  picture: 'picture',
+  lazy: 'lazy-loaded',
+  link: 'full size',
+  background: 'background',
+};
+
+const BUTTON_STYLE = `
+  padding: 6px 12px;
+  border: 1px solid #ccc;
+  border-radius: 4px;
+  background: white;
+  color: #333;
+  font: 13px system-ui, -apple-system, sans-serif;
+  cursor: pointer;
+`;
+
+let isOpen = false;
+
+function createButton(label: string, primary = false): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.style.cssText = BUTTON_STYLE;
+  if (primary) {
+    button.style.background = '#4a90e2';
+    button.style.borderColor = '#4a90e2';
+    button.style.color = 'white';
+  }
+  return button;
+}
+
+/**
+ * Builds the tile of one image: a checkbox, a thumbnail, and the image's size once loaded.
+ * Images that fail to load cannot be selected.
+ */
+function createTile(image: PageImage, onToggle: () => void) {
+  const tile = document.createElement('label');
+  tile.title = image.alt || image.url;
+  tile.style.cssText = `
+    position: relative;
+    display: flex;
+    flex-direction: column;
+    gap: 4px;
+    padding: 6px;
+    border: 2px solid #e0e0e0;
+    border-radius: 4px;
+    background: white;
+    cursor: pointer;
+  `;
+
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.style.cssText = 'position: absolute; top: 8px; left: 8px; margin: 0;';
+
+  const thumbnail = document.createElement('img');
+  thumbnail.src = image.url;
+  thumbnail.alt = image.alt;
+  thumbnail.loading = 'lazy';
+  thumbnail.style.cssText = `
+    width: 100%;
+    height: 110px;
+    object-fit: contain;
+    background: #f5f5f5;
+  `;
+
+  const caption = document.createElement('div');
+  caption.textContent = `Loading… · ${SOURCE_LABELS[image.source]}`;
+  caption.style.cssText = 'color: #666; font-size: 11px;';
+
+  thumbnail.addEventListener('load', () => {
+    caption.textContent = `${thumbnail.naturalWidth} × ${thumbnail.naturalHeight} · ${SOURCE_LABELS[image.source]}`;
+  });
+  thumbnail.addEventListener('error', () => {
+    caption.textContent = 'Failed to load';
+    checkbox.checked = false;
+    checkbox.disabled = true;
+    tile.style.opacity = '0.5';
+    onToggle();
+  });
+
+  const update = () => {
+    tile.style.borderColor = checkbox.checked ? '#4a90e2' : '#e0e0e0';
+  };
+  checkbox.addEventListener('change', () => {
+    update();
+    onToggle();
+  });
+
+  tile.append(checkbox, thumbnail, caption);
+  return {
+    tile,
+    checkbox,
+    setChecked: (checked: boolean) => {
+      if (checkbox.disabled) return;
+      checkbox.checked = checked;
+      update();
+    },
+  };
+}
+
+/**
+ * Shows the images in a grid for the user to pick from. Escape or Cancel closes it.
+ * @param images Images in page order
+ * @returns The selected images in page order, or null if cancelled
+ */
+export function openGalleryPicker(images: PageImage[]): Promise<PageImage[] | null> {
+  if (isOpen) return Promise.resolve(null);
+  isOpen = true;
+
+  return new Promise((resolve) => {
+    const root = document.createElement('div');
+    root.className = 'notes-collector-gallery';
+    root.tabIndex = -1;
+    root.style.cssText = `
+      position: fixed;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.6);
+      z-index: 2147483647;
+      font: 13px system-ui, -apple-system, sans-serif;
+      color: #333;
+    `;
+
+    const panel = document.createElement('div');
+    panel.style.cssText = `
+      display: flex;
+      flex-direction: column;
+      width: min(960px, 94vw);
+      height: 88vh;
+      border-radius: 6px;
+      background: #fafafa;
+      box-shadow: 0 4px 24px rgba(0, 0, 0, 0.4);
+      overflow: hidden;
+    `;
+
+    const header = document.createElement('div');
+    header.style.cssText = `
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 10px 12px;
+      border-bottom: 1px solid #e0e0e0;
+      background: white;
+    `;
+    const title = document.createElement('span');
+    title.textContent = `${images.length} image${images.length !== 1 ? 's' : ''} on this page`;
+    title.style.cssText = 'flex: 1; font-weight: 500;';
+    const selectAllBtn = createButton('Select all');
+    const selectNoneBtn = createButton('Select none');
+    const cancelBtn = createButton('Cancel');
+    const captureBtn = createButton('Capture', true);
+    header.append(title, selectAllBtn, selectNoneBtn, cancelBtn, captureBtn);
+
+    const grid = document.createElement('div');
+    grid.style.cssText = `
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
+      align-content: start;
+      gap: 8px;
+      padding: 12px;
+      overflow: auto;
+    `;
+
+    const tiles: ReturnType<typeof createTile>[] = [];
+    const updateCaptureButton = () => {
+      const count = tiles.filter((tile) => tile.checkbox.checked).length;
+      captureBtn.textContent = `Capture ${count} image${count !== 1 ? 's' : ''}`;
+      captureBtn.disabled = count === 0;
+      captureBtn.style.opacity = count === 0 ? '0.5' : '1';
+    };
+    images.forEach((image) => {
+      const tile = createTile(image, updateCaptureButton);
+      tiles.push(tile);
+      grid.appendChild(tile.tile);
+    });
+    updateCaptureButton();
+
+    const close = (result: PageImage[] | null) => {
+      root.remove();
+      isOpen = false;
+      resolve(result);
+    };
+
+    selectAllBtn.addEventListener('click', () => {
+      tiles.forEach((tile) => tile.setChecked(true));
+      updateCaptureButton();
+    });
+    selectNoneBtn.addEventListener('click', () => {
+      tiles.forEach((tile) => tile.setChecked(false));
+      updateCaptureButton();
+    });
+    cancelBtn.addEventListener('click', () => close(null));
+    captureBtn.addEventListener('click', () => {
+      close(images.filter((_, index) => tiles[index].checkbox.checked));
+    });
+    // Clicking the dimmed backdrop cancels, like Escape
+    root.addEventListener('click', (e) => {
+      if (e.target === root) close(null);
+    });
+
+    root.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Escape') close(null);
+    });
+    // Keep page scripts and the capture shortcuts from reacting to the picker
+    ['mousedown', 'mouseup', 'click', 'mouseover', 'mouseout'].forEach((type) => {
+      root.addEventListener(type, (e) => e.stopPropagation());
+    });
+
+    panel.append(header, grid);
+    root.appendChild(panel);
+    document.body.appendChild(root);
+    root.focus({ preventScroll: true });
+  });
+}
@@ -2,14 +2,21 @@
  * Interactive screenshot overlay logic
  */
 
+// Distance from the top or bottom edge of the viewport at which dragging scrolls the page
+const AUTOSCROLL_EDGE = 40;
+const AUTOSCROLL_MAX_SPEED = 30;
+
 let overlay: HTMLDivElement | null = null;
 let box: HTMLDivElement | null = null;
+// The selection start is kept in document coordinates so it survives scrolling
 let startX = 0;
 let startY = 0;
 let isDrawing = false;
 
 /**
- * Starts screenshot mode
+ * Starts screenshot mode. Dragging near the top or bottom edge scrolls the page, so the
+ * selection can be taller than the viewport.
+ * @param onCapture Called with the selected region in document coordinates
  */
 export function startScreenshotMode(
   clientX: number,
@@ -43,42 +50,71 @@ export function startScreenshotMode(
   overlay.appendChild(box);
   document.body.appendChild(overlay);
 
-  startX = clientX;
-  startY = clientY;
+  startX = clientX + window.scrollX;
+  startY = clientY + window.scrollY;
   isDrawing = true;
 
-  const handleMouseMove = (e: MouseEvent) => {
+  let lastClientX = clientX;
+  let lastClientY = clientY;
+  let scrollFrame = 0;
+
+  const getSelection = () => {
+    const currentX = lastClientX + window.scrollX;
+    const currentY = lastClientY + window.scrollY;
+    return {
+      x: Math.min(startX, currentX),
+      y: Math.min(startY, currentY),
+      width: Math.abs(currentX - startX),
+      height: Math.abs(currentY - startY),
+    };
+  };
+
+  const updateBox = () => {
     if (!isDrawing || !box) return;
 
-    const currentX = e.clientX;
-    const currentY = e.clientY;
+    const rect = getSelection();
+    box.style.display = 'block';
+    box.style.left = `${rect.x - window.scrollX}px`;
+    box.style.top = `${rect.y - window.scrollY}px`;
+    box.style.width = `${rect.width}px`;
+    box.style.height = `${rect.height}px`;
+  };
 
-    const left = Math.min(startX, currentX);
-    const top = Math.min(startY, currentY);
-    const width = Math.abs(currentX - startX);
-    const height = Math.abs(currentY - startY);
+  const autoScroll = () => {
+    scrollFrame = 0;
+    if (!isDrawing) return;
 
-    box.style.display = 'block';
-    box.style.left = `${left}px`;
-    box.style.top = `${top}px`;
-    box.style.width = `${width}px`;
-    box.style.height = `${height}px`;
+    let speed = 0;
+    if (lastClientY < AUTOSCROLL_EDGE) {
+      speed = -((AUTOSCROLL_EDGE - lastClientY) / AUTOSCROLL_EDGE) * AUTOSCROLL_MAX_SPEED;
+    } else if (lastClientY > window.innerHeight - AUTOSCROLL_EDGE) {
+      speed =
+        ((lastClientY - (window.innerHeight - AUTOSCROLL_EDGE)) / AUTOSCROLL_EDGE) *
+        AUTOSCROLL_MAX_SPEED;
+    }
+    if (speed === 0) return;
+
+    window.scrollBy(0, Math.round(speed));
+    updateBox();
+    scrollFrame = requestAnimationFrame(autoScroll);
+  };
+
+  const handleMouseMove = (e: MouseEvent) => {
+    if (!isDrawing) return;
+    lastClientX = e.clientX;
+    lastClientY = e.clientY;
+    updateBox();
+    if (!scrollFrame) scrollFrame = requestAnimationFrame(autoScroll);
   };
 
   const handleMouseUp = (e: MouseEvent) => {
     if (!isDrawing) return;
     isDrawing = false;
+    lastClientX = e.clientX;
+    lastClientY = e.clientY;
 
-    const width = Math.abs(e.clientX - startX);
-    const height = Math.abs(e.clientY - startY);
-
-    if (width > 5 && height > 5) {
-      const rect = {
-        x: Math.min(startX, e.clientX),
-        y: Math.min(startY, e.clientY),
-        width,
-        height,
-      };
+    const rect = getSelection();
+    if (rect.width > 5 && rect.height > 5) {
       cleanup();
       // Give the browser a moment to remove the overlay from the DOM
       // so it doesn't appear in the screenshot
@@ -93,6 +129,9 @@ export function startScreenshotMode(
   };
 
   const cleanup = () => {
+    isDrawing = false;
+    cancelAnimationFrame(scrollFrame);
+    scrollFrame = 0;
     if (overlay) {
       document.body.removeChild(overlay);
       overlay = null;
@@ -101,9 +140,11 @@ export function startScreenshotMode(
     document.removeEventListener('mousemove', handleMouseMove);
     document.removeEventListener('mouseup', handleMouseUp);
     document.removeEventListener('keydown', handleKeyDown);
+    window.removeEventListener('scroll', updateBox);
   };
 
   document.addEventListener('mousemove', handleMouseMove);
+  window.addEventListener('scroll', updateBox);
   document.addEventListener('mouseup', handleMouseUp);
   document.addEventListener('keydown', handleKeyDown);
 }
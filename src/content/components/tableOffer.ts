@@ -0,0 +1,82 @@
+/**
+ * Offer to capture a whole table, shown after Ctrl+Click inside one
+ */
+
+const AUTO_DISMISS_MS = 5000;
+
+let closeOffer: (() => void) | null = null;
+
+/**
+ * Outlines the table and shows a button next to the pointer. The offer goes away on its own,
+ * on Escape, or on the next click anywhere else.
+ * @param table The table that would be captured
+ * @param x Pointer position in viewport coordinates
+ * @param y Pointer position in viewport coordinates
+ * @param onAccept Called when the user accepts the offer
+ */
+export function showTableOffer(
+  table: HTMLTableElement,
+  x: number,
+  y: number,
+  onAccept: () => void
+) {
+  closeOffer?.();
+
+  const rowCount = table.rows.length;
+  const columnCount = Math.max(0, ...Array.from(table.rows).map((row) => row.cells.length));
+
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.className = 'notes-collector-table-offer';
+  button.textContent = `Capture table (${rowCount} × ${columnCount})`;
+  button.style.cssText = `
+    position: fixed;
+    left: ${Math.min(x + 8, window.innerWidth - 220)}px;
+    top: ${Math.min(y + 8, window.innerHeight - 40)}px;
+    padding: 6px 10px;
+    border: none;
+    border-radius: 4px;
+    background: #4a90e2;
+    color: white;
+    font: 13px system-ui, -apple-system, sans-serif;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.25);
+    cursor: pointer;
+    z-index: 999999;
+  `;
+
+  const outline = table.style.getPropertyValue('outline');
+  const outlinePriority = table.style.getPropertyPriority('outline');
+  table.style.setProperty('outline', '3px solid #4a90e2', 'important');
+
+  const close = () => {
+    clearTimeout(timer);
+    button.remove();
+    if (closeOffer === close) closeOffer = null;
+    if (outline) {
+      table.style.setProperty('outline', outline, outlinePriority);
+    } else {
+      table.style.removeProperty('outline');
+    }
+    document.removeEventListener('mousedown', handleOutsideClick, true);
+    document.removeEventListener('keydown', handleKeyDown, true);
+  };
+
+  const handleOutsideClick = (e: MouseEvent) => {
+    if (e.target !== button) close();
+  };
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') close();
+  };
+
+  button.addEventListener('click', (e) => {
+    e.stopPropagation();
+    close();
+    onAccept();
+  });
+
+  const timer = setTimeout(close, AUTO_DISMISS_MS);
+  document.addEventListener('mousedown', handleOutsideClick, true);
+  document.addEventListener('keydown', handleKeyDown, true);
+  document.body.appendChild(button);
+  closeOffer = close;
+}
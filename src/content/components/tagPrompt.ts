@@ -0,0 +1,79 @@
+/**
+ * Quick-tag prompt shown right after a capture
+ */
+import { parseTagInput } from '../../utils/tags';
+
+const AUTO_DISMISS_MS = 6000;
+
+let prompt: HTMLFormElement | null = null;
+
+/**
+ * Shows a small input in the corner of the page. The prompt dismisses itself unless the
+ * user starts typing, so captures are never blocked by it.
+ * @param onSubmit Called with the normalized tags when the user presses Enter
+ */
+export function showTagPrompt(onSubmit: (tags: string[]) => void) {
+  prompt?.remove();
+
+  const form = document.createElement('form');
+  form.className = 'notes-collector-tag-prompt';
+  form.style.cssText = `
+    position: fixed;
+    top: 70px;
+    right: 20px;
+    display: flex;
+    gap: 6px;
+    align-items: center;
+    background: white;
+    padding: 8px 10px;
+    border-radius: 4px;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.25);
+    z-index: 999999;
+    font-family: system-ui, -apple-system, sans-serif;
+    font-size: 13px;
+    color: #333;
+    animation: slide-in 0.3s ease-out;
+  `;
+
+  const label = document.createElement('span');
+  label.textContent = 'Tags:';
+
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.placeholder = 'comma, separated';
+  input.style.cssText = `
+    width: 180px;
+    padding: 4px 6px;
+    border: 1px solid #ccc;
+    border-radius: 3px;
+    font-size: 13px;
+    color: #333;
+    background: white;
+  `;
+
+  form.append(label, input);
+  document.body.appendChild(form);
+  prompt = form;
+
+  const close = () => {
+    clearTimeout(timer);
+    form.remove();
+    if (prompt === form) prompt = null;
+  };
+
+  const timer = setTimeout(close, AUTO_DISMISS_MS);
+  input.addEventListener('input', () => clearTimeout(timer), { once: true });
+  input.addEventListener('blur', close);
+  input.addEventListener('keydown', (e) => {
+    e.stopPropagation();
+    if (e.key === 'Escape') close();
+  });
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const tags = parseTagInput(input.value);
+    close();
+    if (tags.length > 0) onSubmit(tags);
+  });
+
+  input.focus({ preventScroll: true });
+}
@@ -3,9 +3,38 @@
  */
 import './content.scss';
 import { isCapturableElement } from '../utils/dom';
-import { findBestImage } from './elementFinder';
+import { findBestImage, findGraphic, findVideoAt, getCssSelector } from './elementFinder';
 import { showCaptureConfirmation, showTextCaptureConfirmation, cropScreenshot } from './utils';
 import { startScreenshotMode, isDrawingScreenshot } from './components/screenshotOverlay';
+import { showTagPrompt } from './components/tagPrompt';
+import { startElementPicker } from './components/elementPicker';
+import { openGalleryPicker } from './components/galleryPicker';
+import { getImageCandidates, scanPageImages } from './imageScanner';
+import { getSelectionMarkdown } from './selectionMarkdown';
+import { detectCodeLanguage, findCodeBlock, trimCode } from './codeBlock';
+import { extractTable } from './tableExtractor';
+import { getPageMetadata } from './pageMetadata';
+import { getVideoTitle, grabVideoFrame } from './videoFrame';
+import {
+  decodeSvgDataUrl,
+  getGraphicTitle,
+  grabCanvas,
+  rasterizeSvg,
+  serializeSvg,
+} from './graphicCapture';
+import { createTextAnchor } from './textAnchor';
+import { highlightRange, restorePageHighlights, clearPageHighlights } from './passageHighlights';
+import { showTableOffer } from './components/tableOffer';
+import {
+  PageRect,
+  captureRegion,
+  getFullPageRect,
+  getVisibleRect,
+  isInViewport,
+} from './fullPageCapture';
+import { openAnnotationEditor } from '../utils/annotationEditor';
+import { formatVideoTime, getVideoDeepLink } from '../utils/video';
+import { ImageSize, Settings } from '../types';
 
 const HIGHLIGHT_CLASS = 'notes-collector-highlight';
 let isEnabled = true;
@@ -16,6 +45,7 @@ function init() {
   document.addEventListener('mouseout', handleMouseOut);
   document.addEventListener('mousedown', handleMouseDown);
   document.addEventListener('click', handleClick);
+  document.addEventListener('keydown', handleKeyDown);
 
   // Listen for enable/disable messages from background
   browser.runtime.onMessage.addListener((message: unknown) => {
@@ -23,7 +53,15 @@ function init() {
     if (msg.type === 'SITE_ENABLED_CHANGED') {
       isEnabled = msg.enabled ?? msg.data?.enabled ?? true;
       updateDisabledState();
+    } else if (msg.type === 'CAPTURE_FULL_PAGE') {
+      // Requested from the sidebar; the response tells it when the capture is done
+      return captureScreenshotArea(getFullPageRect());
+    } else if (msg.type === 'START_ELEMENT_PICKER') {
+      startPickerCapture();
+    } else if (msg.type === 'START_GALLERY_PICKER') {
+      void startGalleryCapture();
     }
+    return undefined;
   });
 
   // Check initial enabled state
@@ -55,22 +93,24 @@ function updateDisabledState() {
     document.querySelectorAll(`.${HIGHLIGHT_CLASS}`).forEach((el) => {
       el.classList.remove(HIGHLIGHT_CLASS);
     });
+    clearPageHighlights();
+  } else {
+    void restorePageHighlights();
   }
 }
 
 function handleMouseOver(event: MouseEvent) {
   if (!isEnabled) return;
-  const target = event.target as HTMLElement;
-  if (isCapturableElement(target)) {
-    target.classList.add(HIGHLIGHT_CLASS);
-  }
+  // Graphics are outlined as a whole rather than shape by shape
+  getHighlightTarget(event.target as HTMLElement)?.classList.add(HIGHLIGHT_CLASS);
 }
 
 function handleMouseOut(event: MouseEvent) {
-  const target = event.target as HTMLElement;
-  if (isCapturableElement(target)) {
-    target.classList.remove(HIGHLIGHT_CLASS);
-  }
+  getHighlightTarget(event.target as HTMLElement)?.classList.remove(HIGHLIGHT_CLASS);
+}
+
+function getHighlightTarget(target: HTMLElement): Element | null {
+  return findGraphic(target) || (isCapturableElement(target) ? target : null);
 }
 
 function handleMouseDown(event: MouseEvent) {
@@ -86,14 +126,60 @@ function handleMouseDown(event: MouseEvent) {
   }
 }
 
+function handleKeyDown(event: KeyboardEvent) {
+  // Alt+Shift+E picks an element to screenshot
+  if (isEnabled && event.altKey && event.shiftKey && event.code === 'KeyE') {
+    event.preventDefault();
+    startPickerCapture();
+  }
+  // Alt+Shift+G picks images from a gallery of the whole page
+  if (isEnabled && event.altKey && event.shiftKey && event.code === 'KeyG') {
+    event.preventDefault();
+    void startGalleryCapture();
+  }
+}
+
+function startPickerCapture() {
+  startElementPicker((element) => {
+    const rect = element.getBoundingClientRect();
+    void captureScreenshotArea(
+      {
+        x: rect.left + window.scrollX,
+        y: rect.top + window.scrollY,
+        width: rect.width,
+        height: rect.height,
+      },
+      getCssSelector(element)
+    );
+  });
+}
+
 function handleClick(event: MouseEvent) {
   if (!isEnabled || isDrawingScreenshot()) return;
 
   const target = event.target as HTMLElement;
   const selection = window.getSelection();
 
-  // Handle image clicks with Ctrl+Shift+Click
+  // Handle image and video clicks with Ctrl+Shift+Click
   if ((event.ctrlKey || event.metaKey) && event.shiftKey) {
+    // Checked first: players often hold a poster or thumbnail image next to the video
+    const video = findVideoAt(target, event.clientX, event.clientY);
+    if (video) {
+      event.preventDefault();
+      event.stopPropagation();
+      void captureVideoFrame(video);
+      return;
+    }
+
+    // Charts and diagrams drawn as inline SVG or on a canvas
+    const graphic = findGraphic(target);
+    if (graphic) {
+      event.preventDefault();
+      event.stopPropagation();
+      void captureGraphic(graphic);
+      return;
+    }
+
     const img = findBestImage(target);
     if (img?.src) {
       event.preventDefault();
@@ -111,97 +197,411 @@ function handleClick(event: MouseEvent) {
     return;
   }
 
+  // Capture code with Ctrl+Click: the selected part of a code block, or all of it
+  if (event.ctrlKey || event.metaKey) {
+    const range =
+      selection?.rangeCount && selection.toString().trim() ? selection.getRangeAt(0) : null;
+    const codeBlock = findCodeBlock(range ? range.commonAncestorContainer : target);
+    if (codeBlock) {
+      event.preventDefault();
+      void captureCode(codeBlock, trimCode(range ? range.toString() : codeBlock.innerText));
+      return;
+    }
+  }
+
   // Capture selected text with Ctrl+Click
   if (selection && selection.toString().trim() && (event.ctrlKey || event.metaKey)) {
     event.preventDefault();
-    void captureText(selection.toString().trim());
+    void captureText(
+      selection.toString().trim(),
+      getSelectionMarkdown(selection),
+      selection.getRangeAt(0).cloneRange()
+    );
     return;
   }
+
+  // Offer to capture the whole table with Ctrl+Click inside one
+  const table = target.closest('table');
+  if (table && (event.ctrlKey || event.metaKey)) {
+    event.preventDefault();
+    showTableOffer(table, event.clientX, event.clientY, () => {
+      void captureTable(table);
+    });
+  }
+}
+
+async function getSettings(): Promise<Settings | null> {
+  const response = (await browser.runtime.sendMessage({ type: 'GET_SETTINGS' })) as {
+    success: boolean;
+    data?: Settings;
+  };
+  return response.success ? (response.data ?? null) : null;
+}
+
+/**
+ * Asks for tags for a freshly captured item when the quick-tag prompt is enabled
+ * @param response The response of a CAPTURE_* message
+ */
+async function offerQuickTags(response: unknown) {
+  const captured = response as { success: boolean; data?: { id: string } } | undefined;
+  if (!captured?.success || !captured.data) return;
+  const itemId = captured.data.id;
+
+  try {
+    const settings = await getSettings();
+    if (!settings?.quickTagPrompt) return;
+
+    showTagPrompt((tags) => {
+      browser.runtime
+        .sendMessage({ type: 'UPDATE_ITEM', data: { id: itemId, changes: { tags } } })
+        .catch((error) => console.error('Failed to tag item:', error));
+    });
+  } catch (error) {
+    console.error('Failed to show tag prompt:', error);
+  }
 }
 
 async function captureLink(link: HTMLAnchorElement) {
   try {
     const text = link.innerText.trim() || link.title || link.href;
-    await browser.runtime.sendMessage({
+    const captured: unknown = await browser.runtime.sendMessage({
       type: 'CAPTURE_LINK',
-      data: { href: link.href, text },
+      data: { href: link.href, text, page: getPageMetadata() },
     });
     showCaptureConfirmation(link);
+    void offerQuickTags(captured);
   } catch (error) {
     console.error('Failed to capture link:', error);
   }
 }
 
-async function captureImage(img: HTMLImageElement) {
-  const src = img.src;
-  const alt = img.alt || img.title || 'Captured image';
-
-  try {
+/**
+ * Fetches an image through the background, which is not bound by the page's CSP, and saves it.
+ * Sources are tried in order until one loads as an image.
+ * @param sources Candidate URLs of the image, best first
+ * @param displayedSize Resolution of the source the page displays, if known
+ * @returns The CAPTURE_IMAGE response, or null if no source could be fetched
+ */
+async function saveImage(
+  sources: string[],
+  alt: string,
+  displayedSize?: ImageSize
+): Promise<unknown> {
+  for (const src of sources) {
     const response = (await browser.runtime.sendMessage({
       type: 'FETCH_IMAGE',
       data: { url: src },
-    })) as { success: boolean; data?: { dataUrl: string } };
+    })) as { success: boolean; data?: { dataUrl: string; size?: ImageSize } };
+    if (!response.success || !response.data?.dataUrl) continue;
 
-    if (response.success && response.data?.dataUrl) {
-      await browser.runtime.sendMessage({
-        type: 'CAPTURE_IMAGE',
-        data: {
-          src,
-          alt,
-          dataUrl: response.data.dataUrl,
-        },
-      });
-      // Also send screenshot info if we want to store dimensions,
-      // but original code used CAPTURE_IMAGE or CAPTURE_SCREENSHOT interchangeably?
-      // Let's check original background.ts.
+    return browser.runtime.sendMessage({
+      type: 'CAPTURE_IMAGE',
+      data: {
+        src,
+        alt,
+        dataUrl: response.data.dataUrl,
+        displayedSize,
+        originalSize: response.data.size,
+        page: getPageMetadata(),
+      },
+    });
+  }
+  return null;
+}
+
+/**
+ * Saves an `<img>` showing inline SVG markup, rasterized and with its markup kept like an
+ * inline SVG
+ */
+async function saveSvgImage(img: HTMLImageElement, alt: string): Promise<unknown> {
+  const svg = decodeSvgDataUrl(img.src);
+  return browser.runtime.sendMessage({
+    type: 'CAPTURE_IMAGE',
+    data: {
+      src: window.location.href,
+      alt,
+      dataUrl: await rasterizeSvg(svg, img.width, img.height),
+      format: 'svg',
+      svg,
+      page: getPageMetadata(),
+    },
+  });
+}
+
+/**
+ * Captures an image from the largest source it offers, falling back to what is displayed
+ */
+async function captureImage(img: HTMLImageElement) {
+  try {
+    const alt = img.alt || img.title || 'Captured image';
+    const sources = getImageCandidates(img).map((candidate) => candidate.url);
+    // Without a raster alternative, inline SVG is the image itself
+    const captured =
+      sources.length === 0 && img.src.startsWith('data:image/svg+xml')
+        ? await saveSvgImage(img, alt)
+        : await saveImage(
+            sources.length > 0 ? sources : [img.src],
+            alt,
+            img.naturalWidth > 0
+              ? { width: img.naturalWidth, height: img.naturalHeight }
+              : undefined
+          );
+    if (captured) {
       showCaptureConfirmation(img);
+      void offerQuickTags(captured);
     }
   } catch (error) {
     console.error('Failed to capture image:', error);
   }
 }
 
-async function captureText(text: string) {
+/**
+ * Screenshots the part of an element inside the viewport, for content that cannot be read
+ * directly
+ * @returns The screenshot as a data URL, or null if the element is out of view
+ */
+async function screenshotVisiblePart(element: Element): Promise<string | null> {
+  const rect = getVisibleRect(element);
+  if (!rect) return null;
+  const response = (await browser.runtime.sendMessage({
+    type: 'REQUEST_SCREENSHOT',
+    data: { dimensions: rect, pixelRatio: window.devicePixelRatio },
+  })) as { success: boolean; data?: { dataUrl: string } };
+  if (!response.success || !response.data?.dataUrl) return null;
+  return cropScreenshot(response.data.dataUrl, {
+    ...rect,
+    x: rect.x - window.scrollX,
+    y: rect.y - window.scrollY,
+  });
+}
+
+/**
+ * Captures the frame a video is showing as an image item, linked to that moment of the video.
+ * Videos that cannot be read are screenshotted as shown, which needs them in view.
+ */
+async function captureVideoFrame(video: HTMLVideoElement) {
+  const time = video.currentTime;
+  try {
+    const dataUrl = grabVideoFrame(video) ?? (await screenshotVisiblePart(video));
+    if (!dataUrl) return;
+
+    // Streamed videos play from blob: URLs, which mean nothing outside this page
+    const videoSrc = video.currentSrc || video.src;
+    const captured: unknown = await browser.runtime.sendMessage({
+      type: 'CAPTURE_IMAGE',
+      data: {
+        src: /^https?:/.test(videoSrc) ? videoSrc : window.location.href,
+        alt: `${getVideoTitle(video)} at ${formatVideoTime(time)}`,
+        dataUrl,
+        video: { url: getVideoDeepLink(window.location.href, videoSrc, time), time },
+        page: getPageMetadata(),
+      },
+    });
+    showCaptureConfirmation(video);
+    void offerQuickTags(captured);
+  } catch (error) {
+    console.error('Failed to capture video frame:', error);
+  }
+}
+
+/**
+ * Captures an inline SVG or a canvas as an image item. SVGs are rasterized above screen
+ * resolution and keep their markup; tainted canvases are screenshotted as shown.
+ */
+async function captureGraphic(graphic: SVGSVGElement | HTMLCanvasElement) {
+  graphic.classList.remove(HIGHLIGHT_CLASS);
   try {
-    await browser.runtime.sendMessage({
-      type: 'CAPTURE_TEXT',
-      data: { text, sourceUrl: window.location.href },
+    let data: { dataUrl: string; format: 'svg' | 'canvas'; svg?: string } | null = null;
+    if (graphic instanceof HTMLCanvasElement) {
+      const dataUrl = grabCanvas(graphic) ?? (await screenshotVisiblePart(graphic));
+      if (dataUrl) data = { dataUrl, format: 'canvas' };
+    } else {
+      const svg = serializeSvg(graphic);
+      const { width, height } = graphic.getBoundingClientRect();
+      data = { dataUrl: await rasterizeSvg(svg, width, height), format: 'svg', svg };
+    }
+    if (!data) return;
+
+    const captured: unknown = await browser.runtime.sendMessage({
+      type: 'CAPTURE_IMAGE',
+      data: {
+        ...data,
+        src: window.location.href,
+        alt: getGraphicTitle(graphic) || (data.format === 'svg' ? 'SVG graphic' : 'Canvas'),
+        page: getPageMetadata(),
+      },
     });
+    showCaptureConfirmation(graphic);
+    void offerQuickTags(captured);
+  } catch (error) {
+    console.error('Failed to capture graphic:', error);
+  }
+}
+
+/**
+ * Lets the user pick images from a gallery of the whole page, then captures them one by one
+ * in page order. Stops at the first image that cannot be stored, e.g. when storage is full.
+ */
+async function startGalleryCapture() {
+  const images = scanPageImages();
+  if (images.length === 0) {
+    showTextCaptureConfirmation('No images found on this page');
+    return;
+  }
+
+  const selected = await openGalleryPicker(images);
+  if (!selected?.length) return;
+
+  let count = 0;
+  let failed = 0;
+  for (const image of selected) {
+    try {
+      const captured = (await saveImage([image.url], image.alt || 'Captured image')) as {
+        success?: boolean;
+        error?: string;
+      } | null;
+      if (captured?.success) {
+        count++;
+      } else if (captured) {
+        console.error('Failed to save image:', captured.error);
+        break;
+      } else {
+        failed++;
+      }
+    } catch (error) {
+      console.error('Failed to capture image:', error);
+      failed++;
+    }
+  }
+
+  const skipped = selected.length - count - failed;
+  const notes = [failed ? `${failed} failed` : '', skipped ? `${skipped} not saved` : '']
+    .filter(Boolean)
+    .join(', ');
+  showTextCaptureConfirmation(
+    `Captured ${count} image${count !== 1 ? 's' : ''}${notes ? ` (${notes})` : ''}`
+  );
+}
+
+/**
+ * Captures selected text as a text item and highlights the passage on the page
+ * @param markdown Formatted version of the text, if the selection had formatting
+ * @param range The selected passage, anchored so it is highlighted again on later visits
+ */
+async function captureText(text: string, markdown: string | null, range: Range) {
+  try {
+    const captured = (await browser.runtime.sendMessage({
+      type: 'CAPTURE_TEXT',
+      data: {
+        text,
+        sourceUrl: window.location.href,
+        markdown: markdown ?? undefined,
+        anchor: createTextAnchor(range) ?? undefined,
+        page: getPageMetadata(),
+      },
+    })) as { success: boolean; data?: { id: string; collectionId: string } } | undefined;
+    if (captured?.success && captured.data) {
+      highlightRange(range, captured.data.id, captured.data.collectionId);
+    }
     showTextCaptureConfirmation();
+    void offerQuickTags(captured);
   } catch (error) {
     console.error('Failed to capture text:', error);
   }
 }
 
-async function captureScreenshotArea(rect: {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-}) {
+/**
+ * Captures code as a code item, with the language marked on its block
+ */
+async function captureCode(block: HTMLElement, code: string) {
+  if (!code) return;
   try {
-    const response = (await browser.runtime.sendMessage({
-      type: 'REQUEST_SCREENSHOT',
+    const captured: unknown = await browser.runtime.sendMessage({
+      type: 'CAPTURE_CODE',
       data: {
-        dimensions: rect,
-        pixelRatio: window.devicePixelRatio,
+        code,
+        language: detectCodeLanguage(block),
+        sourceUrl: window.location.href,
+        page: getPageMetadata(),
       },
-    })) as { success: boolean; data: { dataUrl: string } };
+    });
+    showCaptureConfirmation(block);
+    void offerQuickTags(captured);
+  } catch (error) {
+    console.error('Failed to capture code:', error);
+  }
+}
 
-    if (response.success && response.data.dataUrl) {
-      // ratio/scaling is now handled internally by cropScreenshot using actual image dimensions
-      const croppedDataUrl = await cropScreenshot(response.data.dataUrl, rect);
-      await browser.runtime.sendMessage({
-        type: 'CAPTURE_SCREENSHOT',
+/**
+ * Captures a table as a table item, keeping its rows and cells
+ */
+async function captureTable(table: HTMLTableElement) {
+  try {
+    const captured: unknown = await browser.runtime.sendMessage({
+      type: 'CAPTURE_TABLE',
+      data: { ...extractTable(table), sourceUrl: window.location.href, page: getPageMetadata() },
+    });
+    showCaptureConfirmation(table);
+    void offerQuickTags(captured);
+  } catch (error) {
+    console.error('Failed to capture table:', error);
+  }
+}
+
+/**
+ * Captures a region of the page as a screenshot item
+ * @param rect The region in document coordinates
+ * @param selector CSS selector of the element the region was taken from, if any
+ * @returns Whether the screenshot was saved, or was discarded in the annotation editor
+ */
+async function captureScreenshotArea(
+  rect: PageRect,
+  selector?: string
+): Promise<{ success: boolean; cancelled?: boolean }> {
+  try {
+    let dataUrl: string;
+    if (isInViewport(rect)) {
+      const response = (await browser.runtime.sendMessage({
+        type: 'REQUEST_SCREENSHOT',
         data: {
-          dataUrl: croppedDataUrl,
-          sourceUrl: window.location.href,
           dimensions: rect,
+          pixelRatio: window.devicePixelRatio,
         },
+      })) as { success: boolean; data: { dataUrl: string } };
+      if (!response.success || !response.data.dataUrl) return { success: false };
+
+      // ratio/scaling is now handled internally by cropScreenshot using actual image dimensions
+      dataUrl = await cropScreenshot(response.data.dataUrl, {
+        ...rect,
+        x: rect.x - window.scrollX,
+        y: rect.y - window.scrollY,
       });
+    } else {
+      // Taller than the viewport or partly scrolled out of view
+      dataUrl = await captureRegion(rect);
     }
+
+    if ((await getSettings())?.annotateScreenshots) {
+      const annotated = await openAnnotationEditor(dataUrl);
+      if (!annotated) return { success: false, cancelled: true };
+      dataUrl = annotated;
+    }
+
+    const captured: unknown = await browser.runtime.sendMessage({
+      type: 'CAPTURE_SCREENSHOT',
+      data: {
+        dataUrl,
+        sourceUrl: window.location.href,
+        dimensions: rect,
+        selector,
+        page: getPageMetadata(),
+      },
+    });
+    void offerQuickTags(captured);
+    return { success: !!(captured as { success?: boolean } | undefined)?.success };
   } catch (error) {
     console.error('Failed to capture screenshot area:', error);
+    return { success: false };
   }
 }
 
@@ -7,7 +7,11 @@
  */
 export function isPlaceholderImage(img: HTMLImageElement): boolean {
   if (img.getAttribute('aria-hidden') === 'true') return true;
-  if (img.src.startsWith('data:image/svg+xml')) return true;
+  // Lazy loaders show an inline SVG until they swap in the real image; other inline SVGs,
+  // such as diagrams, are content
+  if (img.src.startsWith('data:image/svg+xml')) {
+    return img.hasAttribute('data-src') || img.hasAttribute('data-srcset') || img.width < 16;
+  }
   if (img.complete && img.naturalWidth === 0 && img.naturalHeight === 0) return true;
   return false;
 }
@@ -78,3 +82,97 @@ export function getTextContent(element: HTMLElement): string | null {
   if (text.length > 10000) text = text.substring(0, 10000);
   return text;
 }
+
+/**
+ * Builds a CSS selector that uniquely identifies an element in its document. The path
+ * starts at the closest ancestor with a unique id, or at the root element.
+ */
+export function getCssSelector(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement) {
+    if (current.id) {
+      const idSelector = `#${CSS.escape(current.id)}`;
+      if (document.querySelectorAll(idSelector).length === 1) {
+        parts.unshift(idSelector);
+        return parts.join(' > ');
+      }
+    }
+
+    const tag = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    const sameTag = parent
+      ? Array.from(parent.children).filter((child) => child.tagName === current!.tagName)
+      : [];
+    parts.unshift(sameTag.length > 1 ? `${tag}:nth-of-type(${sameTag.indexOf(current) + 1})` : tag);
+    current = parent;
+  }
+
+  return parts.length > 0 ? `html > ${parts.join(' > ')}` : 'html';
+}
+
+/**
+ * Finds the video under a point. Players cover their video with controls and overlays, so
+ * the click target is often not the video itself but a sibling inside the player.
+ * @param startElement The clicked element
+ * @param x Client coordinates of the click
+ * @param y Client coordinates of the click
+ */
+export function findVideoAt(
+  startElement: HTMLElement | null,
+  x: number,
+  y: number
+): HTMLVideoElement | null {
+  const direct = startElement?.closest('video');
+  if (direct) return direct;
+
+  // A few levels up is enough to reach the player's container
+  let current: HTMLElement | null = startElement;
+  for (let depth = 0; current && depth < 6; depth++) {
+    const videos = Array.from(current.querySelectorAll('video'));
+    const hit = videos.find((video) => {
+      const rect = video.getBoundingClientRect();
+      return (
+        rect.width > 0 && x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom
+      );
+    });
+    if (hit) return hit;
+    current = current.parentElement;
+  }
+  return null;
+}
+
+// Graphics smaller than this on either side are taken for icons
+const MIN_GRAPHIC_SIZE = 48;
+const INTERACTIVE_SELECTOR =
+  'a, button, label, summary, select, [role="button"], [role="link"], [role="menuitem"], [role="tab"]';
+
+/**
+ * Checks that a graphic stands on its own, like a chart or diagram, rather than being an icon
+ * in a link or control, which is captured with that instead
+ */
+function isStandaloneGraphic(graphic: Element): boolean {
+  const { width, height } = graphic.getBoundingClientRect();
+  return (
+    width >= MIN_GRAPHIC_SIZE &&
+    height >= MIN_GRAPHIC_SIZE &&
+    !graphic.closest(INTERACTIVE_SELECTOR)
+  );
+}
+
+/**
+ * Finds the inline SVG or canvas an element belongs to. For SVGs nested in SVGs this is the
+ * outermost one, so a click on any part of a chart captures the whole chart.
+ * @returns The graphic, or null if there is none or it is an icon
+ */
+export function findGraphic(
+  startElement: Element | null
+): SVGSVGElement | HTMLCanvasElement | null {
+  if (!startElement) return null;
+
+  let graphic: SVGSVGElement | HTMLCanvasElement | null =
+    startElement instanceof HTMLCanvasElement ? startElement : startElement.closest('svg');
+  while (graphic?.parentElement?.closest('svg')) graphic = graphic.parentElement.closest('svg');
+  return graphic && isStandaloneGraphic(graphic) ? graphic : null;
+}
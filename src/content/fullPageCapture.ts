@@ -0,0 +1,202 @@
+/**
+ * Scrolling capture of page regions taller than the viewport
+ *
+ * captureVisibleTab only sees the viewport, so the page is scrolled one viewport at a time,
+ * each frame is captured and the visible slice of the region is copied into one tall canvas.
+ * Fixed and sticky elements (headers, cookie bars) would repeat in every frame, so they are
+ * hidden once the first frame has been taken.
+ */
+
+export interface PageRect {
+  x: number; // Document coordinates, in CSS pixels
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Browsers refuse canvases much taller than this; longer captures are scaled down to fit
+const MAX_CANVAS_HEIGHT = 16384;
+// Spacing between captureVisibleTab calls, kept under two a second so rapid calls are not
+// refused or throttled
+const MIN_FRAME_INTERVAL_MS = 550;
+// Time for lazy-loaded content and scroll-linked effects to settle after scrolling
+const SETTLE_DELAY_MS = 150;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const nextFrame = () => new Promise((resolve) => requestAnimationFrame(resolve));
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load captured frame'));
+    img.src = dataUrl;
+  });
+}
+
+async function requestFrame(): Promise<HTMLImageElement> {
+  const response = (await browser.runtime.sendMessage({
+    type: 'REQUEST_SCREENSHOT',
+    data: { dimensions: { x: 0, y: 0, width: window.innerWidth, height: window.innerHeight } },
+  })) as { success: boolean; data?: { dataUrl: string }; error?: string };
+  if (!response.success || !response.data) {
+    throw new Error(response.error || 'Failed to capture the visible tab');
+  }
+  return loadImage(response.data.dataUrl);
+}
+
+async function scrollToY(y: number) {
+  window.scrollTo({ left: window.scrollX, top: y, behavior: 'instant' as ScrollBehavior });
+  await nextFrame();
+  await nextFrame();
+  await sleep(SETTLE_DELAY_MS);
+}
+
+/**
+ * Hides fixed and sticky elements
+ * @returns Restores the hidden elements
+ */
+function hideFloatingElements(): () => void {
+  const hidden: { element: HTMLElement; visibility: string; priority: string }[] = [];
+  document.querySelectorAll<HTMLElement>('body *').forEach((element) => {
+    const { position } = getComputedStyle(element);
+    if (position !== 'fixed' && position !== 'sticky') return;
+    hidden.push({
+      element,
+      visibility: element.style.getPropertyValue('visibility'),
+      priority: element.style.getPropertyPriority('visibility'),
+    });
+    element.style.setProperty('visibility', 'hidden', 'important');
+  });
+
+  return () => {
+    hidden.forEach(({ element, visibility, priority }) => {
+      if (visibility) {
+        element.style.setProperty('visibility', visibility, priority);
+      } else {
+        element.style.removeProperty('visibility');
+      }
+    });
+  };
+}
+
+/**
+ * Gets the rectangle covering the whole scrollable page, excluding the scrollbar
+ */
+export function getFullPageRect(): PageRect {
+  const root = document.documentElement;
+  return {
+    x: 0,
+    y: 0,
+    width: root.clientWidth,
+    height: Math.max(root.scrollHeight, document.body?.scrollHeight ?? 0),
+  };
+}
+
+/**
+ * Checks whether a region is entirely visible without scrolling
+ */
+export function isInViewport(rect: PageRect): boolean {
+  return (
+    rect.y >= window.scrollY &&
+    rect.y + rect.height <= window.scrollY + window.innerHeight &&
+    rect.x >= window.scrollX &&
+    rect.x + rect.width <= window.scrollX + window.innerWidth
+  );
+}
+
+/**
+ * The part of an element inside the viewport
+ * @returns The region in document coordinates, or null if the element is out of view
+ */
+export function getVisibleRect(element: Element): PageRect | null {
+  const rect = element.getBoundingClientRect();
+  const left = Math.max(0, rect.left);
+  const top = Math.max(0, rect.top);
+  const right = Math.min(window.innerWidth, rect.right);
+  const bottom = Math.min(window.innerHeight, rect.bottom);
+  if (right - left < 1 || bottom - top < 1) return null;
+  return {
+    x: left + window.scrollX,
+    y: top + window.scrollY,
+    width: right - left,
+    height: bottom - top,
+  };
+}
+
+/**
+ * Captures a region of the page by scrolling through it and stitching the frames.
+ * The region is clipped horizontally to the viewport.
+ * @param rect The region in document coordinates
+ * @returns The stitched image as a PNG data URL
+ */
+export async function captureRegion(rect: PageRect): Promise<string> {
+  const originalScroll = { x: window.scrollX, y: window.scrollY };
+  const left = Math.max(rect.x, window.scrollX);
+  const width = Math.min(rect.x + rect.width, window.scrollX + window.innerWidth) - left;
+  const top = Math.max(0, rect.y);
+  const bottom = rect.y + rect.height;
+  if (width <= 0 || bottom <= top) throw new Error('Nothing to capture in the selected region');
+
+  let canvas: HTMLCanvasElement | null = null;
+  let ctx: CanvasRenderingContext2D | null = null;
+  let scale = 1;
+  let restoreFloating: (() => void) | null = null;
+  let lastFrameAt = 0;
+  let y = top;
+
+  try {
+    while (y < bottom) {
+      await scrollToY(y);
+      const wait = lastFrameAt + MIN_FRAME_INTERVAL_MS - Date.now();
+      if (wait > 0) await sleep(wait);
+
+      const frame = await requestFrame();
+      lastFrameAt = Date.now();
+      // Pixel ratio of the capture, which accounts for zoom as well as devicePixelRatio
+      const ratio = frame.width / window.innerWidth;
+
+      if (!canvas) {
+        const fullHeight = (bottom - top) * ratio;
+        scale = Math.min(1, MAX_CANVAS_HEIGHT / fullHeight);
+        canvas = document.createElement('canvas');
+        canvas.width = Math.round(width * ratio * scale);
+        canvas.height = Math.round(fullHeight * scale);
+        ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Failed to get canvas context');
+      }
+
+      // The page may not scroll as far as asked near its end; use where it actually is
+      const viewTop = window.scrollY;
+      const sliceTop = Math.max(y, viewTop);
+      const sliceBottom = Math.min(bottom, viewTop + window.innerHeight);
+      if (sliceBottom <= sliceTop) break;
+
+      ctx!.drawImage(
+        frame,
+        Math.round((left - window.scrollX) * ratio),
+        Math.round((sliceTop - viewTop) * ratio),
+        Math.round(width * ratio),
+        Math.round((sliceBottom - sliceTop) * ratio),
+        0,
+        Math.round((sliceTop - top) * ratio * scale),
+        canvas.width,
+        Math.round((sliceBottom - sliceTop) * ratio * scale)
+      );
+
+      if (!restoreFloating) restoreFloating = hideFloatingElements();
+      y = sliceBottom;
+    }
+  } finally {
+    restoreFloating?.();
+    window.scrollTo({
+      left: originalScroll.x,
+      top: originalScroll.y,
+      behavior: 'instant' as ScrollBehavior,
+    });
+  }
+
+  if (!canvas) throw new Error('Nothing to capture in the selected region');
+  return canvas.toDataURL('image/png');
+}
@@ -0,0 +1,198 @@
+/**
+ * Capture of inline SVGs and canvases, such as charts and diagrams, at more than screen
+ * resolution
+ *
+ * An SVG is serialized with the styles the page's stylesheets gave it, so it renders the same
+ * on its own, then rasterized at a multiple of its size. Scripts and event handlers are removed,
+ * since the markup is exported as a standalone file. A canvas is read directly, which fails once
+ * cross-origin images have been drawn on it.
+ */
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+// Raster scale for SVGs, capped so the longest side stays within what canvases handle
+const SVG_SCALE = 3;
+const MAX_RASTER_SIZE = 4096;
+
+// Presentation properties that page stylesheets commonly set on SVG content
+const INLINED_PROPERTIES = [
+  'fill',
+  'fill-opacity',
+  'fill-rule',
+  'stroke',
+  'stroke-width',
+  'stroke-opacity',
+  'stroke-dasharray',
+  'stroke-linecap',
+  'stroke-linejoin',
+  'opacity',
+  'color',
+  'font-family',
+  'font-size',
+  'font-weight',
+  'font-style',
+  'text-anchor',
+  'dominant-baseline',
+  'visibility',
+];
+
+/**
+ * Copies the computed presentation styles of each element onto its clone
+ */
+function inlineStyles(source: Element, clone: Element) {
+  const computed = getComputedStyle(source);
+  const style = INLINED_PROPERTIES.map(
+    (property) => `${property}:${computed.getPropertyValue(property)}`
+  ).join(';');
+  clone.setAttribute('style', `${style};${clone.getAttribute('style') || ''}`);
+
+  const sourceChildren = source.children;
+  const cloneChildren = clone.children;
+  for (let i = 0; i < sourceChildren.length && i < cloneChildren.length; i++) {
+    inlineStyles(sourceChildren[i], cloneChildren[i]);
+  }
+}
+
+/**
+ * Copies the elements that `<use>` references from elsewhere on the page, such as icon sprites,
+ * into the SVG's own defs
+ */
+function inlineReferences(svg: SVGSVGElement, clone: SVGSVGElement) {
+  const defs = document.createElementNS(SVG_NS, 'defs');
+  const copied = new Set<string>();
+  Array.from(clone.querySelectorAll('use')).forEach((use) => {
+    const href = use.getAttribute('href') || use.getAttributeNS(XLINK_NS, 'href');
+    const id = href?.startsWith('#') ? href.slice(1) : null;
+    if (!id || copied.has(id) || clone.querySelector(`#${CSS.escape(id)}`)) return;
+
+    const target = document.getElementById(id);
+    if (!target || svg.contains(target)) return;
+    const copy = target.cloneNode(true) as Element;
+    inlineStyles(target, copy);
+    defs.appendChild(copy);
+    copied.add(id);
+  });
+  if (defs.childNodes.length > 0) clone.insertBefore(defs, clone.firstChild);
+}
+
+// Elements that run or load active content; SVG animations are removed only when they set a link
+const ACTIVE_ELEMENTS = 'script, iframe, object, embed';
+const LINK_ATTRIBUTES = ['href', 'xlink:href', 'src', 'action', 'formaction'];
+
+/**
+ * Removes scripts, event handler attributes and links other than web URLs and fragments, which
+ * would run as the page's code when the exported file is opened
+ */
+function stripActiveContent(root: Element) {
+  Array.from(root.querySelectorAll(ACTIVE_ELEMENTS)).forEach((element) => element.remove());
+  Array.from(root.querySelectorAll('animate, set')).forEach((animation) => {
+    if (/href$/i.test(animation.getAttribute('attributeName') || '')) animation.remove();
+  });
+
+  [root, ...Array.from(root.querySelectorAll('*'))].forEach((element) => {
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      const isLink = LINK_ATTRIBUTES.includes(name.toLowerCase());
+      // Embedded bitmaps of charts are kept; images cannot run scripts
+      const isEmbeddedImage = element.localName === 'image' && /^data:image\//i.test(value.trim());
+      if (
+        /^on/i.test(name) ||
+        (isLink && !/^(https?:|#)/i.test(value.trim()) && !isEmbeddedImage)
+      ) {
+        element.removeAttribute(name);
+      }
+    });
+  });
+}
+
+/**
+ * Serializes an inline SVG as a standalone document
+ */
+export function serializeSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+  inlineReferences(svg, clone);
+  stripActiveContent(clone);
+
+  // Sizes set in CSS are lost outside the page
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('xmlns:xlink', XLINK_NS);
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  if (!clone.hasAttribute('viewBox')) clone.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/**
+ * Reads the markup of an SVG data URL, as used by `<img>` elements showing inline SVG, with
+ * active content removed as for inline SVGs
+ */
+export function decodeSvgDataUrl(dataUrl: string): string {
+  const comma = dataUrl.indexOf(',');
+  const body = dataUrl.slice(comma + 1);
+  const markup = dataUrl.slice(0, comma).endsWith(';base64')
+    ? new TextDecoder().decode(Uint8Array.from(atob(body), (char) => char.charCodeAt(0)))
+    : decodeURIComponent(body);
+
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) throw new Error('Invalid SVG markup');
+  stripActiveContent(doc.documentElement);
+  return new XMLSerializer().serializeToString(doc);
+}
+
+/**
+ * Renders SVG markup to a PNG
+ * @param width Displayed size of the SVG in CSS pixels
+ * @param height Displayed size of the SVG in CSS pixels
+ */
+export function rasterizeSvg(markup: string, width: number, height: number): Promise<string> {
+  const scale = Math.min(SVG_SCALE, MAX_RASTER_SIZE / Math.max(width, height, 1));
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+          reject(new Error('Failed to get canvas context'));
+          return;
+        }
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/png'));
+      } catch (e) {
+        reject(e instanceof Error ? e : new Error(String(e)));
+      }
+    };
+    img.onerror = () => reject(new Error('Failed to render SVG'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(markup)}`;
+  });
+}
+
+/**
+ * Reads the contents of a canvas
+ * @returns A PNG data URL, or null if the canvas is tainted by cross-origin content
+ */
+export function grabCanvas(canvas: HTMLCanvasElement): string | null {
+  if (!canvas.width || !canvas.height) return null;
+  try {
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    console.warn('Cannot read canvas, falling back to a screenshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Names a graphic after its own label or title, if it has one
+ */
+export function getGraphicTitle(element: Element): string | undefined {
+  const title =
+    element.getAttribute('aria-label') ||
+    element.querySelector(':scope > title')?.textContent ||
+    element.getAttribute('title');
+  return title?.trim() || undefined;
+}
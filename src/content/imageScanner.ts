@@ -0,0 +1,138 @@
+/**
+ * Discovery of images on the page and of the largest source each one offers, for image
+ * capture and the gallery picker
+ */
+
+export interface PageImage {
+  url: string;
+  alt: string;
+  source: 'img' | 'picture' | 'lazy' | 'link' | 'background';
+}
+
+// Attributes lazy-loading libraries keep the real source in until the image scrolls into view
+const LAZY_SRC_ATTRIBUTES = ['data-src', 'data-lazy-src', 'data-original', 'data-lazy', 'data-url'];
+const LAZY_SRCSET_ATTRIBUTES = ['data-srcset', 'data-lazy-srcset'];
+
+// Links straight to an image file, as lightboxes and galleries wrap their thumbnails in
+const IMAGE_FILE_PATTERN = /\.(avif|bmp|gif|jpe?g|png|webp)$/i;
+
+const BACKGROUND_URL_PATTERN = /url\(\s*(['"]?)(.*?)\1\s*\)/g;
+
+/**
+ * Picks the largest candidate of a srcset, by width descriptor or pixel density
+ */
+function getLargestSrcsetCandidate(srcset: string | null): string | undefined {
+  if (!srcset) return undefined;
+  let best: { url: string; size: number } | undefined;
+  // Candidates are separated by commas followed by whitespace; URLs may contain bare commas
+  for (const candidate of srcset.split(/,\s+/)) {
+    const [url, descriptor = '1x'] = candidate.trim().split(/\s+/);
+    // A srcset uses one kind of descriptor throughout, so the numbers compare directly
+    const size = parseFloat(descriptor) || 1;
+    if (url && (!best || size > best.size)) best = { url, size };
+  }
+  return best?.url;
+}
+
+/**
+ * Resolves a URL against the page and keeps it only if it can be fetched as an image
+ */
+function toImageUrl(url: string | null | undefined): string | undefined {
+  if (!url) return undefined;
+  try {
+    const resolved = new URL(url, document.baseURI).href;
+    // Inline SVGs are almost always placeholders or icons
+    if (resolved.startsWith('data:image/svg+xml')) return undefined;
+    return /^(https?:|data:image\/)/.test(resolved) ? resolved : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Finds the full-size image a thumbnail links to
+ */
+function getLinkedImage(img: HTMLImageElement): string | undefined {
+  const url = toImageUrl(img.closest('a')?.href);
+  if (!url || !/^https?:/.test(url)) return undefined;
+  return IMAGE_FILE_PATTERN.test(new URL(url).pathname) ? url : undefined;
+}
+
+/**
+ * Lists the sources of an `<img>`, likely largest first and each URL once: a full-size image it
+ * links to, the largest variants its `<picture>` and srcset offer, the sources a lazy loader
+ * has not swapped in yet, and last what is displayed
+ */
+export function getImageCandidates(img: HTMLImageElement): Omit<PageImage, 'alt'>[] {
+  const candidates: Omit<PageImage, 'alt'>[] = [];
+  const add = (url: string | undefined, source: PageImage['source']) => {
+    if (url && !candidates.some((candidate) => candidate.url === url)) {
+      candidates.push({ url, source });
+    }
+  };
+  const displayed = toImageUrl(img.currentSrc || img.src);
+
+  add(getLinkedImage(img), 'link');
+
+  const picture = img.parentElement?.localName === 'picture' ? img.parentElement : null;
+  if (picture) {
+    // Sources whose media query matches, in the order the browser tries them
+    Array.from(picture.querySelectorAll('source'))
+      .filter((source) => !source.media || window.matchMedia(source.media).matches)
+      .forEach((source) => {
+        add(toImageUrl(getLargestSrcsetCandidate(source.getAttribute('srcset'))), 'picture');
+      });
+  }
+
+  add(toImageUrl(getLargestSrcsetCandidate(img.getAttribute('srcset'))), 'img');
+
+  const lazyUrls = [
+    ...LAZY_SRCSET_ATTRIBUTES.map((attribute) =>
+      toImageUrl(getLargestSrcsetCandidate(img.getAttribute(attribute)))
+    ),
+    ...LAZY_SRC_ATTRIBUTES.map((attribute) => toImageUrl(img.getAttribute(attribute))),
+  ];
+  // A lazy source that has been swapped in already is what is displayed
+  lazyUrls.filter((url) => url !== displayed).forEach((url) => add(url, 'lazy'));
+
+  add(displayed, 'img');
+  return candidates;
+}
+
+function getBackgroundUrls(element: Element): string[] {
+  const backgroundImage = getComputedStyle(element).backgroundImage;
+  if (!backgroundImage || backgroundImage === 'none') return [];
+
+  const urls: string[] = [];
+  for (const match of Array.from(backgroundImage.matchAll(BACKGROUND_URL_PATTERN))) {
+    const url = toImageUrl(match[2]);
+    if (url) urls.push(url);
+  }
+  return urls;
+}
+
+/**
+ * Lists the images of the page in document order, each URL once. Covers `<img>` elements by
+ * their largest source, and CSS background images.
+ */
+export function scanPageImages(): PageImage[] {
+  const images: PageImage[] = [];
+  const seen = new Set<string>();
+  const add = (image: PageImage) => {
+    if (seen.has(image.url)) return;
+    seen.add(image.url);
+    images.push(image);
+  };
+
+  Array.from(document.body.querySelectorAll('*')).forEach((element) => {
+    if (element instanceof HTMLImageElement) {
+      const [best] = getImageCandidates(element);
+      if (best) add({ ...best, alt: element.alt || element.title });
+    }
+    getBackgroundUrls(element).forEach((url) => {
+      add({ url, alt: element.getAttribute('aria-label') || '', source: 'background' });
+    });
+  });
+
+  return images;
+}
@@ -0,0 +1,54 @@
+/**
+ * Collection of metadata about the current page, attached to every capture
+ */
+import { PageMetadata } from '../types';
+import { getMetaContent } from '../utils/dom';
+
+const MAX_DESCRIPTION_LENGTH = 500;
+
+function getLinkHref(selector: string): string | undefined {
+  return document.querySelector<HTMLLinkElement>(selector)?.href || undefined;
+}
+
+/**
+ * Picks the page's icon: the largest declared icon, else the site's /favicon.ico. Inline data
+ * icons are skipped so items stay small.
+ */
+function getFavicon(): string | undefined {
+  const icons = Array.from(
+    document.querySelectorAll<HTMLLinkElement>('link[rel~="icon"], link[rel="apple-touch-icon"]')
+  ).filter((link) => /^https?:/.test(link.href));
+  const size = (link: HTMLLinkElement) => parseInt(link.sizes?.value || '', 10) || 16;
+  const best = icons.sort((a, b) => size(b) - size(a))[0];
+  if (best) return best.href;
+  return /^https?:$/.test(location.protocol) ? `${location.origin}/favicon.ico` : undefined;
+}
+
+/**
+ * Collects the title, icon, canonical URL and OpenGraph or Twitter card details of the page.
+ * Fields the page does not declare are left out.
+ */
+export function getPageMetadata(): PageMetadata {
+  const description = getMetaContent(
+    document,
+    'og:description',
+    'twitter:description',
+    'description'
+  );
+  const fields: Omit<PageMetadata, 'url'> = {
+    title:
+      getMetaContent(document, 'og:title', 'twitter:title') || document.title.trim() || undefined,
+    favicon: getFavicon(),
+    canonicalUrl: getLinkHref('link[rel="canonical"]') || getMetaContent(document, 'og:url'),
+    siteName: getMetaContent(document, 'og:site_name', 'application-name'),
+    description: description?.slice(0, MAX_DESCRIPTION_LENGTH),
+    author: getMetaContent(document, 'author', 'article:author', 'twitter:creator'),
+    publishedAt: getMetaContent(document, 'article:published_time', 'datePublished', 'date'),
+  };
+
+  const page: PageMetadata = { url: location.href };
+  for (const [key, value] of Object.entries(fields) as [keyof typeof fields, string][]) {
+    if (value) page[key] = value;
+  }
+  return page;
+}
@@ -0,0 +1,97 @@
+/**
+ * Highlights of captured passages on the page they were captured from. Clicking one shows
+ * its item in the sidebar.
+ */
+import { PageHighlight } from '../types';
+import { resolveTextAnchors } from './textAnchor';
+
+const PASSAGE_CLASS = 'notes-collector-passage';
+// Passages of pages that render their content late are looked for once more after this delay
+const RETRY_DELAY_MS = 3000;
+
+const highlightedItems = new Set<string>();
+
+/**
+ * Wraps the text of a range in highlight marks, one per text node it covers
+ */
+export function highlightRange(range: Range, itemId: string, collectionId: string) {
+  if (highlightedItems.has(itemId)) return;
+  highlightedItems.add(itemId);
+
+  const container = range.commonAncestorContainer;
+  const nodes: Text[] = [];
+  if (container.nodeType === Node.TEXT_NODE) {
+    nodes.push(container as Text);
+  } else {
+    const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT);
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      if (range.intersectsNode(node)) nodes.push(node as Text);
+    }
+  }
+
+  nodes.forEach((node) => {
+    const start = node === range.startContainer ? range.startOffset : 0;
+    const end = node === range.endContainer ? range.endOffset : node.length;
+    // Whitespace between blocks may sit where a mark is not allowed, e.g. inside a <tr>
+    if (!node.data.slice(start, end).trim()) return;
+
+    let target = node;
+    if (start > 0) target = target.splitText(start);
+    if (end - start < target.length) target.splitText(end - start);
+
+    const mark = document.createElement('mark');
+    mark.className = PASSAGE_CLASS;
+    mark.title = 'Captured in Notes Collector. Click to show it in the sidebar.';
+    mark.addEventListener('click', (e) => {
+      // Ctrl+click still captures
+      if (e.ctrlKey || e.metaKey || e.shiftKey) return;
+      browser.runtime
+        .sendMessage({ type: 'SHOW_ITEM', data: { id: itemId, collectionId } })
+        .catch((error) => console.error('Failed to show item:', error));
+    });
+    target.parentNode?.insertBefore(mark, target);
+    mark.appendChild(target);
+  });
+}
+
+function highlightAnchors(highlights: PageHighlight[]): PageHighlight[] {
+  const pending = highlights.filter(({ itemId }) => !highlightedItems.has(itemId));
+  // Every range is found before any is wrapped; ranges follow the DOM as text nodes split
+  const ranges = resolveTextAnchors(pending.map(({ anchor }) => anchor));
+  ranges.forEach((range, i) => {
+    if (range) highlightRange(range, pending[i].itemId, pending[i].collectionId);
+  });
+  return pending.filter((_, i) => !ranges[i]);
+}
+
+/**
+ * Highlights the passages captured on this page before, in any collection
+ */
+export async function restorePageHighlights() {
+  try {
+    const response = (await browser.runtime.sendMessage({
+      type: 'GET_PAGE_HIGHLIGHTS',
+      data: { url: location.href },
+    })) as { success: boolean; data?: PageHighlight[] };
+    if (!response.success || !response.data?.length) return;
+
+    const missing = highlightAnchors(response.data);
+    if (missing.length > 0) setTimeout(() => highlightAnchors(missing), RETRY_DELAY_MS);
+  } catch (error) {
+    console.error('Failed to restore highlights:', error);
+  }
+}
+
+/**
+ * Removes every highlight, e.g. when the extension is disabled on the site
+ */
+export function clearPageHighlights() {
+  document.querySelectorAll(`mark.${PASSAGE_CLASS}`).forEach((mark) => {
+    const parent = mark.parentNode;
+    if (!parent) return;
+    while (mark.firstChild) parent.insertBefore(mark.firstChild, mark);
+    parent.removeChild(mark);
+    parent.normalize();
+  });
+  highlightedItems.clear();
+}
@@ -0,0 +1,268 @@
+/**
+ * Conversion of a text selection to Markdown, so captures keep their headings, lists, emphasis,
+ * links and code
+ *
+ * Only the subset understood by utils/markdown is produced. Nothing from the page's HTML is
+ * kept verbatim, so the result is safe to render wherever notes are rendered.
+ */
+import { isSafeHref, parseMarkdown } from '../utils/markdown';
+
+const BLOCK_TAGS = new Set([
+  'address',
+  'article',
+  'aside',
+  'blockquote',
+  'dd',
+  'div',
+  'dl',
+  'dt',
+  'figcaption',
+  'figure',
+  'footer',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'header',
+  'li',
+  'main',
+  'nav',
+  'ol',
+  'p',
+  'pre',
+  'section',
+  'table',
+  'tbody',
+  'td',
+  'tfoot',
+  'th',
+  'thead',
+  'tr',
+  'ul',
+]);
+
+const SKIPPED_TAGS = new Set([
+  'button',
+  'iframe',
+  'input',
+  'noscript',
+  'object',
+  'script',
+  'select',
+  'style',
+  'svg',
+  'template',
+  'textarea',
+]);
+
+// Ancestors of a selection that change how its contents read
+const FORMATTING_TAGS = new Set([
+  'a',
+  'b',
+  'blockquote',
+  'code',
+  'em',
+  'h1',
+  'h2',
+  'h3',
+  'h4',
+  'h5',
+  'h6',
+  'i',
+  'li',
+  'ol',
+  'pre',
+  'strong',
+  'ul',
+]);
+
+interface BlockOutput {
+  blocks: string[];
+  inline: string;
+}
+
+function escapeText(text: string): string {
+  return text.replace(/[\\`*_[\]]/g, '\\$&');
+}
+
+/**
+ * Collapses whitespace and escapes what would start a heading, list or quote
+ */
+function toLine(markdown: string): string {
+  return markdown
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^([#>]|[-+](?=\s))/, '\\$1')
+    .replace(/^(\d+)([.)])(?=\s)/, '$1\\$2');
+}
+
+/**
+ * Wraps text in an emphasis marker, keeping surrounding whitespace outside of it
+ */
+function wrap(markdown: string, marker: string, marks: string[]): string {
+  const [, lead, core, trail] = /^(\s*)([\s\S]*?)(\s*)$/.exec(markdown) ?? ['', '', markdown, ''];
+  if (!core || marks.includes(marker)) return markdown;
+  return `${lead}${marker}${core}${marker}${trail}`;
+}
+
+function codeSpan(text: string): string {
+  const code = text.replace(/\s+/g, ' ');
+  if (!code.trim()) return code;
+  return code.includes('`') ? escapeText(code) : `\`${code}\``;
+}
+
+function linkMarkdown(anchor: HTMLAnchorElement, markdown: string): string {
+  const text = markdown.trim();
+  if (!text || text.includes(']') || !isSafeHref(anchor.href)) return markdown;
+  const href = anchor.href.replace(/[()\s]/g, encodeURIComponent);
+  return `[${text}](${href})`;
+}
+
+/**
+ * Converts the contents of a node to inline Markdown; block boundaries become spaces
+ * @param marks Emphasis markers already open, which are not repeated inside themselves
+ */
+function inlineMarkdown(node: Node, marks: string[] = []): string {
+  let markdown = '';
+  node.childNodes.forEach((child) => {
+    markdown += inlineNodeMarkdown(child, marks);
+  });
+  return markdown;
+}
+
+function inlineNodeMarkdown(node: Node, marks: string[]): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeText(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const tag = element.localName;
+  if (SKIPPED_TAGS.has(tag)) return '';
+
+  switch (tag) {
+    case 'br':
+      return ' ';
+    case 'strong':
+    case 'b':
+      return wrap(inlineMarkdown(element, [...marks, '**']), '**', marks);
+    case 'em':
+    case 'i':
+      return wrap(inlineMarkdown(element, [...marks, '_']), '_', marks);
+    case 'code':
+    case 'kbd':
+    case 'samp':
+    case 'tt':
+      return codeSpan(element.textContent || '');
+    case 'a':
+      return linkMarkdown(element as HTMLAnchorElement, inlineMarkdown(element, marks));
+  }
+
+  const markdown = inlineMarkdown(element, marks);
+  return BLOCK_TAGS.has(tag) ? ` ${markdown} ` : markdown;
+}
+
+function flushParagraph(output: BlockOutput) {
+  const line = toLine(output.inline);
+  if (line) output.blocks.push(line);
+  output.inline = '';
+}
+
+function listMarkdown(list: Element, ordered: boolean, output: BlockOutput) {
+  let number = 1;
+  Array.from(list.children).forEach((item) => {
+    if (item.localName !== 'li') return;
+
+    // The parser has no nesting, so nested lists follow their parent item
+    const own = item.cloneNode(true) as Element;
+    Array.from(own.children)
+      .filter((child) => child.localName === 'ul' || child.localName === 'ol')
+      .forEach((child) => child.remove());
+    const line = toLine(inlineMarkdown(own));
+    if (line) output.blocks.push(`${ordered ? `${number++}.` : '-'} ${line}`);
+
+    Array.from(item.children)
+      .filter((child) => child.localName === 'ul' || child.localName === 'ol')
+      .forEach((child) => listMarkdown(child, child.localName === 'ol', output));
+  });
+}
+
+function codeBlockMarkdown(pre: Element): string | null {
+  const code = (pre.textContent || '').replace(/\n+$/, '');
+  if (!code.trim()) return null;
+  // A fence inside the code would end the block early
+  return `\`\`\`\n${code.replace(/^(\s*)```/gm, '$1` ``')}\n\`\`\``;
+}
+
+function collectBlocks(node: Node, output: BlockOutput) {
+  node.childNodes.forEach((child) => {
+    const element = child as Element;
+    const tag = child.nodeType === Node.ELEMENT_NODE ? element.localName : '';
+    if (!BLOCK_TAGS.has(tag) && tag !== 'br') {
+      output.inline += inlineNodeMarkdown(child, []);
+      return;
+    }
+
+    flushParagraph(output);
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      const line = toLine(inlineMarkdown(element));
+      if (line) output.blocks.push(`${'#'.repeat(Number(heading[1]))} ${line}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      listMarkdown(element, tag === 'ol', output);
+    } else if (tag === 'li') {
+      const line = toLine(inlineMarkdown(element));
+      if (line) output.blocks.push(`- ${line}`);
+    } else if (tag === 'pre') {
+      const block = codeBlockMarkdown(element);
+      if (block) output.blocks.push(block);
+    } else if (tag === 'blockquote') {
+      const line = toLine(inlineMarkdown(element));
+      if (line) output.blocks.push(`> ${line}`);
+    } else if (tag !== 'br') {
+      collectBlocks(element, output);
+      flushParagraph(output);
+    }
+  });
+}
+
+/**
+ * Copies a selected range, wrapped in shallow copies of the ancestors that format it. A range
+ * inside a single list item or bold run otherwise loses that context.
+ */
+function cloneRangeWithContext(range: Range): Node {
+  let contents: Node = range.cloneContents();
+  let ancestor: Node | null = range.commonAncestorContainer;
+  if (ancestor.nodeType !== Node.ELEMENT_NODE) ancestor = ancestor.parentNode;
+
+  while (ancestor && ancestor !== document.body && ancestor.nodeType === Node.ELEMENT_NODE) {
+    if (FORMATTING_TAGS.has((ancestor as Element).localName)) {
+      const wrapper = ancestor.cloneNode(false);
+      wrapper.appendChild(contents);
+      contents = wrapper;
+    }
+    ancestor = ancestor.parentNode;
+  }
+
+  const root = document.createElement('div');
+  root.appendChild(contents);
+  return root;
+}
+
+/**
+ * Converts the current selection to Markdown
+ * @returns The Markdown, or null if the selection has no formatting worth keeping
+ */
+export function getSelectionMarkdown(selection: Selection): string | null {
+  const output: BlockOutput = { blocks: [], inline: '' };
+  for (let i = 0; i < selection.rangeCount; i++) {
+    collectBlocks(cloneRangeWithContext(selection.getRangeAt(i)), output);
+    flushParagraph(output);
+  }
+
+  const markdown = output.blocks.join('\n\n');
+  const isPlain = parseMarkdown(markdown).every(
+    (block) => block.type === 'paragraph' && block.children.every((child) => child.type === 'text')
+  );
+  return isPlain ? null : markdown;
+}
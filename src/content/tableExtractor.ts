@@ -0,0 +1,29 @@
+/**
+ * Extraction of HTML tables into rows of cells
+ */
+import { TableCell } from '../types';
+
+function getCellText(cell: HTMLTableCellElement): string {
+  return cell.innerText.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Reads the rows of a table, header, body and footer sections included. Nested tables are
+ * read as the text of the cell that holds them.
+ */
+export function extractTable(table: HTMLTableElement): { rows: TableCell[][]; caption?: string } {
+  const rows = Array.from(table.rows).map((row) =>
+    Array.from(row.cells).map((cell) => {
+      const tableCell: TableCell = { text: getCellText(cell) };
+      if (cell.tagName === 'TH') tableCell.header = true;
+      if (cell.colSpan > 1) tableCell.colSpan = cell.colSpan;
+      // rowspan="0" spans the rest of the section; the grid clips it to the table
+      const rowSpan = cell.rowSpan || table.rows.length;
+      if (rowSpan > 1) tableCell.rowSpan = rowSpan;
+      return tableCell;
+    })
+  );
+
+  const caption = table.caption?.innerText.replace(/\s+/g, ' ').trim();
+  return caption ? { rows, caption } : { rows };
+}
@@ -0,0 +1,223 @@
+/**
+ * Anchoring of captured passages, so they can be found and highlighted again on later visits
+ *
+ * A passage is located by its quote and the text around it, which survives most page changes.
+ * The XPath of its start and end is kept as a fallback for when the quote is no longer found
+ * verbatim, e.g. because whitespace changed.
+ */
+import { TextAnchor } from '../types';
+
+const CONTEXT_LENGTH = 32;
+
+// Elements whose text is not part of what the user reads
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'textarea']);
+
+/**
+ * The page's text content as one string, with the text node each part came from
+ */
+interface TextIndex {
+  text: string;
+  nodes: Text[];
+  starts: number[]; // Position in text where each node starts
+}
+
+function buildTextIndex(): TextIndex {
+  const index: TextIndex = { text: '', nodes: [], starts: [] };
+  const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) =>
+      node.parentElement && SKIPPED_TAGS.has(node.parentElement.localName)
+        ? NodeFilter.FILTER_REJECT
+        : NodeFilter.FILTER_ACCEPT,
+  });
+
+  const parts: string[] = [];
+  let length = 0;
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    index.nodes.push(node);
+    index.starts.push(length);
+    parts.push(node.data);
+    length += node.data.length;
+  }
+  index.text = parts.join('');
+  return index;
+}
+
+/**
+ * Converts a boundary point of a range to a position in the indexed text
+ */
+function toTextOffset(index: TextIndex, container: Node, offset: number): number {
+  if (container.nodeType === Node.TEXT_NODE) {
+    const i = index.nodes.indexOf(container as Text);
+    if (i !== -1) return index.starts[i] + offset;
+  }
+  // A point between elements: the position of the first indexed text after it
+  const point = document.createRange();
+  point.setStart(container, offset);
+  const i = index.nodes.findIndex((node) => point.comparePoint(node, 0) >= 0);
+  return i === -1 ? index.text.length : index.starts[i];
+}
+
+/**
+ * Converts a position in the indexed text to a boundary point inside a text node
+ * @param isEnd Whether the point ends a range, so a position between two nodes is placed at
+ *   the end of the first rather than the start of the second
+ */
+function toBoundaryPoint(index: TextIndex, position: number, isEnd: boolean): [Text, number] {
+  let low = 0;
+  let high = index.nodes.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    const start = index.starts[middle];
+    if (start < position || (!isEnd && start === position)) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return [index.nodes[low], position - index.starts[low]];
+}
+
+function getXPath(node: Node): string {
+  const steps: string[] = [];
+  for (let current: Node | null = node; current && current !== document; ) {
+    const parent: Node | null = current.parentNode;
+    if (current.nodeType === Node.TEXT_NODE) {
+      const siblings = Array.from(parent?.childNodes || []).filter(
+        (child) => child.nodeType === Node.TEXT_NODE
+      );
+      steps.unshift(`text()[${siblings.indexOf(current as ChildNode) + 1}]`);
+    } else {
+      const name = (current as Element).localName;
+      const siblings = Array.from(parent?.childNodes || []).filter(
+        (child) => (child as Element).localName === name
+      );
+      steps.unshift(`${name}[${siblings.indexOf(current as ChildNode) + 1}]`);
+    }
+    current = parent;
+  }
+  return `/${steps.join('/')}`;
+}
+
+function evaluateXPath(path: string): Node | null {
+  try {
+    return document.evaluate(path, document, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null)
+      .singleNodeValue;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Describes where a selected range is, for finding it again later
+ * @returns The anchor, or null if the range holds no visible text
+ */
+export function createTextAnchor(range: Range): TextAnchor | null {
+  const index = buildTextIndex();
+  const start = toTextOffset(index, range.startContainer, range.startOffset);
+  const end = toTextOffset(index, range.endContainer, range.endOffset);
+  const exact = index.text.slice(start, end);
+  if (!exact.trim()) return null;
+
+  const anchor: TextAnchor = {
+    exact,
+    prefix: index.text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: index.text.slice(end, end + CONTEXT_LENGTH),
+  };
+  if (range.startContainer.nodeType === Node.TEXT_NODE) {
+    anchor.startPath = getXPath(range.startContainer);
+    anchor.startOffset = range.startOffset;
+  }
+  if (range.endContainer.nodeType === Node.TEXT_NODE) {
+    anchor.endPath = getXPath(range.endContainer);
+    anchor.endOffset = range.endOffset;
+  }
+  return anchor;
+}
+
+function countCommonSuffix(a: string, b: string): number {
+  let count = 0;
+  while (
+    count < a.length &&
+    count < b.length &&
+    a[a.length - 1 - count] === b[b.length - 1 - count]
+  ) {
+    count++;
+  }
+  return count;
+}
+
+function countCommonPrefix(a: string, b: string): number {
+  let count = 0;
+  while (count < a.length && count < b.length && a[count] === b[count]) count++;
+  return count;
+}
+
+/**
+ * Finds the occurrence of the quote whose surrounding text best matches the anchor's context
+ */
+function findQuote(index: TextIndex, anchor: TextAnchor): number {
+  let best = -1;
+  let bestScore = -1;
+  for (
+    let at = index.text.indexOf(anchor.exact);
+    at !== -1;
+    at = index.text.indexOf(anchor.exact, at + 1)
+  ) {
+    const before = index.text.slice(Math.max(0, at - anchor.prefix.length), at);
+    const after = index.text.slice(
+      at + anchor.exact.length,
+      at + anchor.exact.length + anchor.suffix.length
+    );
+    const score =
+      countCommonSuffix(before, anchor.prefix) + countCommonPrefix(after, anchor.suffix);
+    if (score > bestScore) {
+      best = at;
+      bestScore = score;
+    }
+    // Both contexts match in full; no later occurrence can do better
+    if (score === anchor.prefix.length + anchor.suffix.length) break;
+  }
+  return best;
+}
+
+/**
+ * Rebuilds a range from the XPath fallback, if it still covers the same text apart from
+ * whitespace
+ */
+function resolveXPath(anchor: TextAnchor): Range | null {
+  if (!anchor.startPath || !anchor.endPath) return null;
+  const startNode = evaluateXPath(anchor.startPath);
+  const endNode = evaluateXPath(anchor.endPath);
+  if (!startNode || !endNode) return null;
+
+  try {
+    const range = document.createRange();
+    range.setStart(startNode, anchor.startOffset ?? 0);
+    range.setEnd(endNode, anchor.endOffset ?? 0);
+    const normalize = (text: string) => text.replace(/\s+/g, '');
+    return normalize(range.toString()) === normalize(anchor.exact) ? range : null;
+  } catch {
+    // Offsets beyond the end of a node that has since changed
+    return null;
+  }
+}
+
+/**
+ * Finds the passages of several anchors on the current page. The page's text is indexed once
+ * for all of them, so resolve every anchor before changing the DOM.
+ * @returns A range per anchor, or null for anchors that are no longer found
+ */
+export function resolveTextAnchors(anchors: TextAnchor[]): (Range | null)[] {
+  const index = buildTextIndex();
+  if (index.nodes.length === 0) return anchors.map(() => null);
+
+  return anchors.map((anchor) => {
+    const start = findQuote(index, anchor);
+    if (start === -1) return resolveXPath(anchor);
+
+    const range = document.createRange();
+    range.setStart(...toBoundaryPoint(index, start, false));
+    range.setEnd(...toBoundaryPoint(index, start + anchor.exact.length, true));
+    return range;
+  });
+}
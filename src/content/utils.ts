@@ -5,7 +5,7 @@
 /**
  * Visual feedback - briefly show an element was captured
  */
-export function showCaptureConfirmation(element: HTMLElement) {
+export function showCaptureConfirmation(element: Element) {
   element.classList.add('notes-collector-captured');
 
   setTimeout(() => {
@@ -15,10 +15,11 @@ export function showCaptureConfirmation(element: HTMLElement) {
 
 /**
  * Visual feedback - show a temporary notification for text capture
+ * @param message Shown instead of the default, e.g. for captures of several images
  */
-export function showTextCaptureConfirmation() {
+export function showTextCaptureConfirmation(message = 'Text captured!') {
   const notification = document.createElement('div');
-  notification.textContent = 'Text captured!';
+  notification.textContent = message;
   notification.style.cssText = `
     position: fixed;
     top: 20px;
@@ -0,0 +1,46 @@
+/**
+ * Grabbing the current frame of an HTML5 video
+ *
+ * The frame is drawn to a canvas at the video's own resolution. That fails for cross-origin
+ * videos served without CORS, which taint the canvas, and gives a blank frame for DRM-protected
+ * ones; for those the caller falls back to a screenshot of the video as shown.
+ */
+
+// HTMLMediaElement.HAVE_CURRENT_DATA: a frame is available to draw
+const HAVE_CURRENT_DATA = 2;
+
+/**
+ * Draws the frame the video is showing
+ * @returns The frame as a PNG data URL, or null if the video cannot be read
+ */
+export function grabVideoFrame(video: HTMLVideoElement): string | null {
+  // Encrypted media always draws as black
+  if (video.mediaKeys) return null;
+  if (video.readyState < HAVE_CURRENT_DATA || !video.videoWidth || !video.videoHeight) return null;
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    // Throws a SecurityError for a tainted canvas
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    console.warn('Cannot read video frame, falling back to a screenshot:', error);
+    return null;
+  }
+}
+
+/**
+ * Names a frame after the video's own label, else the page
+ */
+export function getVideoTitle(video: HTMLVideoElement): string {
+  return (
+    video.getAttribute('aria-label') ||
+    video.title ||
+    document.title.trim() ||
+    'Video'
+  ).trim();
+}
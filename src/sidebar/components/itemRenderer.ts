@@ -1,11 +1,29 @@
 /**
  * Component for rendering captured items in the sidebar
  */
-import { CapturedItem } from '../../types';
+import {
+  CapturedItem,
+  ImageMetadata,
+  ItemChanges,
+  LinkCheck,
+  LinkPreview,
+  TableCell,
+} from '../../types';
 import { escapeHtml } from '../../utils/dom';
+import { getHostname } from '../../utils/url';
+import { renderMarkdownHtml } from '../../utils/markdown';
+import { parseTagInput } from '../../utils/tags';
+import { isBlobRef } from '../../utils/blobStore';
+import { tableToCsv, toGrid } from '../../utils/table';
+import { formatVideoTime } from '../../utils/video';
+import { observeThumbnail } from '../thumbnailLoader';
+import { getMatchExcerpt, highlightMatches } from '../searchIndex';
 
 export interface ItemCallbacks {
   onDelete: (id: string) => void;
+  onUpdate: (id: string, changes: ItemChanges) => void;
+  onAnnotate: (id: string) => void;
+  onTagClick: (tag: string) => void;
   onDragStart: (e: DragEvent) => void;
   onDragOver: (e: DragEvent) => void;
   onDrop: (e: DragEvent) => void;
@@ -14,10 +32,131 @@ export interface ItemCallbacks {
   onDragLeave: (e: DragEvent) => void;
 }
 
+/**
+ * Builds the thumbnail markup; stored blobs are resolved lazily by the thumbnail loader
+ */
+function thumbnailHtml(content: string, alt: string): string {
+  const source = isBlobRef(content)
+    ? `data-blob-ref="${escapeHtml(content)}"`
+    : `src="${escapeHtml(content)}"`;
+  return `<img class="item-thumbnail" ${source} alt="${escapeHtml(alt)}" />`;
+}
+
+/**
+ * Builds the line naming where an item came from: the page's icon and title, with its URL as
+ * a tooltip. Items saved without page details show the URL itself.
+ * @param details Shown before the source, such as a code block's language
+ */
+function sourceHtml(item: CapturedItem, url: string, details?: string): string {
+  const prefix = details ? `${escapeHtml(details)} · ` : '';
+  const { page } = item;
+  if (!page) return `<div class="item-url">${prefix}${escapeHtml(url)}</div>`;
+
+  const pageUrl = page.canonicalUrl || page.url;
+  const favicon =
+    page.favicon && /^https?:/i.test(page.favicon)
+      ? `<img class="item-favicon" src="${escapeHtml(page.favicon)}" alt="" />`
+      : '';
+  const label = page.title || getHostname(pageUrl) || pageUrl;
+  return `
+    <div class="item-url item-source" title="${escapeHtml(pageUrl)}">
+      ${favicon}<span class="item-source-label">${prefix}${escapeHtml(label)}</span>
+    </div>
+  `;
+}
+
+/**
+ * Builds the card for a link's target page. Only the stored copy of the image is shown, since
+ * loading it from its site would tell that site whenever the sidebar opens. The image is
+ * dropped if it fails to load.
+ */
+function linkPreviewHtml(preview: LinkPreview | undefined): string {
+  if (!preview || (!preview.title && !preview.description)) return '';
+  const image = isBlobRef(preview.imageRef)
+    ? `<img class="link-preview-image" data-blob-ref="${escapeHtml(preview.imageRef)}" alt="" />`
+    : '';
+  const title = preview.title
+    ? `<div class="link-preview-title">${escapeHtml(preview.title)}</div>`
+    : '';
+  const description = preview.description
+    ? `<div class="link-preview-description">${escapeHtml(preview.description)}</div>`
+    : '';
+  const siteName = preview.siteName
+    ? `<div class="link-preview-site">${escapeHtml(preview.siteName)}</div>`
+    : '';
+  return `
+    <div class="link-preview">
+      ${image}
+      <div class="link-preview-text">${siteName}${title}${description}</div>
+    </div>
+  `;
+}
+
+/**
+ * Builds the badge showing the result of the last link check
+ */
+function linkStatusHtml(check: LinkCheck): string {
+  const checked = `Checked ${new Date(check.checkedAt).toLocaleString()}`;
+  switch (check.status) {
+    case 'live':
+      return `<span class="link-status live" title="${checked}">✓ Live</span>`;
+    case 'redirected':
+      return `<span class="link-status redirected" title="Redirects to ${escapeHtml(check.finalUrl || '')}. ${checked}">↪ Redirected</span>`;
+    case 'broken':
+      return `<span class="link-status broken" title="${checked}">✕ Broken${check.statusCode ? ` (${check.statusCode})` : ''}</span>`;
+    case 'unreachable':
+      return `<span class="link-status unreachable" title="The request failed, so the page may still be live. ${checked}">? Unreachable</span>`;
+  }
+}
+
+const GRAPHIC_FORMAT_LABELS = { svg: 'SVG', canvas: 'Canvas' };
+
+/**
+ * Builds the resolution of a captured image, noting when the page displayed a smaller source
+ */
+function imageSizeHtml({ originalSize, displayedSize }: ImageMetadata): string {
+  if (!originalSize) return '';
+  const size = `${originalSize.width} × ${originalSize.height}`;
+  const isLarger =
+    displayedSize &&
+    (originalSize.width > displayedSize.width || originalSize.height > displayedSize.height);
+  return isLarger
+    ? `<span title="The page displayed ${displayedSize.width} × ${displayedSize.height}">${size} ↑</span> · `
+    : `${size} · `;
+}
+
+const TABLE_PREVIEW_ROWS = 4;
+const TABLE_PREVIEW_COLUMNS = 5;
+
+/**
+ * Builds a preview of the top-left corner of a table, with spans clipped to the preview
+ */
+function tablePreviewHtml(rows: TableCell[][]): string {
+  const grid = toGrid(rows).slice(0, TABLE_PREVIEW_ROWS);
+  const body = grid
+    .map((row, r) => {
+      const cells = row.slice(0, TABLE_PREVIEW_COLUMNS).map((cell, c) => {
+        if (!cell) return '';
+        const tag = cell.header ? 'th' : 'td';
+        const colSpan = Math.min(cell.colSpan || 1, TABLE_PREVIEW_COLUMNS - c);
+        const rowSpan = Math.min(cell.rowSpan || 1, grid.length - r);
+        return `<${tag} colspan="${colSpan}" rowspan="${rowSpan}">${escapeHtml(cell.text)}</${tag}>`;
+      });
+      return `<tr>${cells.join('')}</tr>`;
+    })
+    .join('');
+  return `<table class="item-table">${body}</table>`;
+}
+
 /**
  * Renders a single captured item as an HTMLLIElement
+ * @param searchTerms Active search terms, highlighted in the rendered text
  */
-export function createItemElement(item: CapturedItem, callbacks: ItemCallbacks): HTMLLIElement {
+export function createItemElement(
+  item: CapturedItem,
+  callbacks: ItemCallbacks,
+  searchTerms: string[] = []
+): HTMLLIElement {
   const li = document.createElement('li');
   li.className = 'item';
   li.dataset.itemId = item.id;
@@ -31,35 +170,80 @@ export function createItemElement(item: CapturedItem, callbacks: ItemCallbacks):
         <span class="item-drag-handle" title="Drag to reorder">⋮⋮</span>
         <span class="item-icon link-icon">🔗</span>
         <div class="item-text">
-          <div class="item-title">${escapeHtml(item.metadata.text)}</div>
+          <div class="item-title">${escapeHtml(item.title || item.metadata.text)}</div>
           <div class="item-url">${escapeHtml(item.metadata.href)}</div>
+          ${linkPreviewHtml(item.metadata.preview)}
+          ${item.page ? sourceHtml(item, item.page.url) : ''}
         </div>
       </div>
     `;
   } else if (item.type === 'image' && 'alt' in item.metadata && 'originalSrc' in item.metadata) {
+    const { video, format } = item.metadata;
+    // Frames link back to their moment of the video
+    const urlHtml = video
+      ? `<a class="item-video-link" href="${escapeHtml(video.url)}" target="_blank" rel="noopener noreferrer" title="${escapeHtml(video.url)}">▶ ${formatVideoTime(video.time)}</a>`
+      : `${format ? `${GRAPHIC_FORMAT_LABELS[format]} · ` : ''}${imageSizeHtml(item.metadata)}${escapeHtml(item.metadata.originalSrc)}`;
     contentHtml = `
       <div class="item-content">
         <span class="item-drag-handle" title="Drag to reorder">⋮⋮</span>
-        <img class="item-thumbnail" src="${escapeHtml(item.content)}" alt="${escapeHtml(item.metadata.alt)}" />
+        ${thumbnailHtml(item.content, item.metadata.alt)}
         <div class="item-text">
-          <div class="item-title">${escapeHtml(item.metadata.alt)}</div>
-          <div class="item-url">${escapeHtml(item.metadata.originalSrc)}</div>
+          <div class="item-title">${escapeHtml(item.title || item.metadata.alt)}</div>
+          <div class="item-url">${urlHtml}</div>
+          ${item.page ? sourceHtml(item, item.page.url) : ''}
         </div>
       </div>
     `;
   } else if (item.type === 'text' && 'text' in item.metadata && 'sourceUrl' in item.metadata) {
-    const truncatedText =
-      item.metadata.text.length > 100
-        ? item.metadata.text.substring(0, 100) + '...'
-        : item.metadata.text;
+    const truncatedText = getMatchExcerpt(item.metadata.text, searchTerms, 100);
+    // Formatted captures show a preview in place of the excerpt
+    const { markdown } = item.metadata;
+    const titleHtml =
+      markdown && !item.title
+        ? ''
+        : `<div class="item-title">${escapeHtml(item.title || truncatedText)}</div>`;
+    const previewHtml = markdown
+      ? `<div class="item-rich-text">${renderMarkdownHtml(markdown)}</div>`
+      : '';
 
     contentHtml = `
       <div class="item-content">
         <span class="item-drag-handle" title="Drag to reorder">⋮⋮</span>
         <span class="item-icon text-icon">📝</span>
         <div class="item-text">
-          <div class="item-title">${escapeHtml(truncatedText)}</div>
-          <div class="item-url">${escapeHtml(item.metadata.sourceUrl)}</div>
+          ${titleHtml}
+          ${previewHtml}
+          ${sourceHtml(item, item.metadata.sourceUrl)}
+        </div>
+      </div>
+    `;
+  } else if (item.type === 'code' && 'code' in item.metadata) {
+    const { code, language, sourceUrl } = item.metadata;
+    const titleHtml = item.title ? `<div class="item-title">${escapeHtml(item.title)}</div>` : '';
+
+    contentHtml = `
+      <div class="item-content">
+        <span class="item-drag-handle" title="Drag to reorder">⋮⋮</span>
+        <span class="item-icon code-icon">💻</span>
+        <div class="item-text">
+          ${titleHtml}
+          <pre class="item-code"><code>${escapeHtml(code)}</code></pre>
+          ${sourceHtml(item, sourceUrl, language)}
+        </div>
+      </div>
+    `;
+  } else if (item.type === 'table' && 'rows' in item.metadata) {
+    const { rows, caption, sourceUrl } = item.metadata;
+    const columnCount = toGrid(rows)[0]?.length ?? 0;
+
+    contentHtml = `
+      <div class="item-content">
+        <span class="item-drag-handle" title="Drag to reorder">⋮⋮</span>
+        <span class="item-icon table-icon">📊</span>
+        <div class="item-text">
+          <div class="item-title">${escapeHtml(item.title || caption || 'Table')}</div>
+          ${tablePreviewHtml(rows)}
+          ${sourceHtml(item, sourceUrl, `${rows.length} × ${columnCount}`)}
         </div>
       </div>
     `;
@@ -67,22 +251,67 @@ export function createItemElement(item: CapturedItem, callbacks: ItemCallbacks):
     contentHtml = `
       <div class="item-content">
         <span class="item-drag-handle" title="Drag to reorder">⋮⋮</span>
-        <img class="item-thumbnail" src="${escapeHtml(item.content)}" alt="${escapeHtml(item.metadata.alt)}" />
+        ${thumbnailHtml(item.content, item.metadata.alt)}
         <div class="item-text">
-          <div class="item-title">${escapeHtml(item.metadata.alt)}</div>
-          <div class="item-url">${escapeHtml(item.metadata.sourceUrl)}</div>
+          <div class="item-title">${escapeHtml(item.title || item.metadata.alt)}</div>
+          ${sourceHtml(item, item.metadata.sourceUrl)}
         </div>
       </div>
     `;
   }
 
+  const annotateHtml =
+    item.type === 'image' || item.type === 'screenshot'
+      ? '<button class="annotate-btn" title="Annotate image">🖍</button>'
+      : '';
+  const copyCsvHtml =
+    item.type === 'table' ? '<button class="copy-csv-btn" title="Copy as CSV">⧉</button>' : '';
+  const copySvgHtml =
+    'svg' in item.metadata && item.metadata.svg
+      ? '<button class="copy-svg-btn" title="Copy SVG markup">⧉</button>'
+      : '';
+
   li.innerHTML = `
     ${contentHtml}
     <div class="item-actions">
+      ${annotateHtml}
+      ${copyCsvHtml}
+      ${copySvgHtml}
+      <button class="edit-btn" title="Edit title and note">✎</button>
       <button class="delete-btn" title="Delete" data-id="${item.id}">✕</button>
     </div>
   `;
 
+  const itemText = li.querySelector('.item-text');
+  if (item.tags?.length) {
+    const chips = item.tags
+      .map(
+        (tag) => `<span class="tag-chip" data-tag="${escapeHtml(tag)}">#${escapeHtml(tag)}</span>`
+      )
+      .join('');
+    itemText?.insertAdjacentHTML('beforeend', `<div class="item-tags">${chips}</div>`);
+  }
+  if (item.linkCheck) {
+    itemText?.insertAdjacentHTML('beforeend', `<div>${linkStatusHtml(item.linkCheck)}</div>`);
+  }
+  if (item.note) {
+    itemText?.insertAdjacentHTML(
+      'beforeend',
+      `<div class="item-note">${renderMarkdownHtml(item.note)}</div>`
+    );
+  }
+
+  if (itemText) highlightMatches(itemText as HTMLElement, searchTerms);
+
+  li.querySelectorAll<HTMLElement>('.item-tags .tag-chip').forEach((chip) => {
+    chip.addEventListener('click', () => callbacks.onTagClick(chip.dataset.tag || ''));
+  });
+
+  li.querySelectorAll<HTMLImageElement>('img[data-blob-ref]').forEach(observeThumbnail);
+  li.querySelectorAll<HTMLImageElement>('.item-favicon, .link-preview-image').forEach((image) => {
+    image.addEventListener('error', () => image.remove(), { once: true });
+  });
+
   // Add delete button event listener
   const deleteBtn = li.querySelector('.delete-btn') as HTMLButtonElement;
   if (deleteBtn) {
@@ -91,6 +320,45 @@ export function createItemElement(item: CapturedItem, callbacks: ItemCallbacks):
     });
   }
 
+  const editBtn = li.querySelector('.edit-btn') as HTMLButtonElement;
+  if (editBtn) {
+    editBtn.addEventListener('click', () => {
+      openItemEditor(li, item, callbacks);
+    });
+  }
+
+  li.querySelector('.annotate-btn')?.addEventListener('click', () => {
+    callbacks.onAnnotate(item.id);
+  });
+
+  const copyCsvBtn = li.querySelector<HTMLButtonElement>('.copy-csv-btn');
+  if (copyCsvBtn && 'rows' in item.metadata) {
+    const { rows } = item.metadata;
+    copyCsvBtn.addEventListener('click', () => {
+      navigator.clipboard
+        .writeText(tableToCsv(rows))
+        .then(() => {
+          copyCsvBtn.textContent = '✓';
+          setTimeout(() => (copyCsvBtn.textContent = '⧉'), 1000);
+        })
+        .catch((error) => console.error('Failed to copy table:', error));
+    });
+  }
+
+  const copySvgBtn = li.querySelector<HTMLButtonElement>('.copy-svg-btn');
+  if (copySvgBtn && 'svg' in item.metadata && item.metadata.svg) {
+    const { svg } = item.metadata;
+    copySvgBtn.addEventListener('click', () => {
+      navigator.clipboard
+        .writeText(svg)
+        .then(() => {
+          copySvgBtn.textContent = '✓';
+          setTimeout(() => (copySvgBtn.textContent = '⧉'), 1000);
+        })
+        .catch((error) => console.error('Failed to copy SVG:', error));
+    });
+  }
+
   // Add drag event listeners
   li.addEventListener('dragstart', callbacks.onDragStart);
   li.addEventListener('dragover', callbacks.onDragOver);
@@ -101,3 +369,60 @@ export function createItemElement(item: CapturedItem, callbacks: ItemCallbacks):
 
   return li;
 }
+
+/**
+ * Shows an inline form for editing the item's title, tags and Markdown note
+ */
+function openItemEditor(li: HTMLLIElement, item: CapturedItem, callbacks: ItemCallbacks) {
+  if (li.querySelector('.item-editor')) return;
+
+  // Text inside a draggable element cannot be selected or edited reliably
+  li.draggable = false;
+  li.classList.add('editing');
+
+  const form = document.createElement('form');
+  form.className = 'item-editor';
+  form.innerHTML = `
+    <input class="item-editor-title" type="text" placeholder="Title" />
+    <input class="item-editor-tags" type="text" placeholder="Tags, comma separated" />
+    <textarea class="item-editor-note" rows="4" placeholder="Notes (Markdown supported)"></textarea>
+    <div class="item-editor-actions">
+      <button type="button" class="editor-btn item-editor-cancel">Cancel</button>
+      <button type="submit" class="editor-btn item-editor-save">Save</button>
+    </div>
+  `;
+
+  const titleInput = form.querySelector('.item-editor-title') as HTMLInputElement;
+  const tagsInput = form.querySelector('.item-editor-tags') as HTMLInputElement;
+  const noteInput = form.querySelector('.item-editor-note') as HTMLTextAreaElement;
+  titleInput.value = item.title || '';
+  tagsInput.value = (item.tags || []).join(', ');
+  noteInput.value = item.note || '';
+
+  const close = () => {
+    form.remove();
+    li.draggable = true;
+    li.classList.remove('editing');
+  };
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    callbacks.onUpdate(item.id, {
+      title: titleInput.value,
+      note: noteInput.value,
+      tags: parseTagInput(tagsInput.value),
+    });
+    close();
+  });
+  form.querySelector('.item-editor-cancel')?.addEventListener('click', close);
+  form.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') {
+      close();
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      form.requestSubmit();
+    }
+  });
+
+  li.appendChild(form);
+  titleInput.focus();
+}
@@ -0,0 +1,60 @@
+/**
+ * Component for the storage report in the settings panel
+ */
+import { CapturedItem, StorageReport } from '../../types';
+import { escapeHtml } from '../../utils/dom';
+import { getItemLabel } from './trashPanel';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Renders the storage used overall and by each item of the collection, largest first
+ * @param summary Element for the totals
+ * @param list The list element for the items
+ * @param report Storage used, as measured by the background
+ * @param items Items of the reported collection, for their labels
+ * @param onShowItem Shows an item when its entry is clicked
+ */
+export function renderStorageReport(
+  summary: HTMLElement,
+  list: HTMLElement,
+  report: StorageReport,
+  items: CapturedItem[],
+  onShowItem: (id: string) => void
+) {
+  const mediaBytes = report.items.reduce((sum, usage) => sum + usage.mediaBytes, 0);
+  const quota = report.quotaBytes
+    ? ` of ${formatBytes(report.quotaBytes)} (${Math.round((report.bytesInUse / report.quotaBytes) * 100)}%)`
+    : '';
+  summary.textContent = `Item data: ${formatBytes(report.bytesInUse)}${quota} · Images in this collection: ${formatBytes(mediaBytes)}`;
+
+  if (report.items.length === 0) {
+    list.innerHTML = '<li class="storage-report-empty">No items in this collection.</li>';
+    return;
+  }
+
+  const labels = new Map(items.map((item) => [item.id, getItemLabel(item)]));
+  list.innerHTML = [...report.items]
+    .sort((a, b) => b.dataBytes + b.mediaBytes - (a.dataBytes + a.mediaBytes))
+    .map(
+      ({ id, dataBytes, mediaBytes: itemMediaBytes }) => `
+        <li
+          class="storage-report-entry"
+          data-item-id="${escapeHtml(id)}"
+          title="Data ${formatBytes(dataBytes)} · Image ${formatBytes(itemMediaBytes)}"
+        >
+          <span class="storage-report-label">${escapeHtml(labels.get(id) || 'Item')}</span>
+          <span class="storage-report-size">${formatBytes(dataBytes + itemMediaBytes)}</span>
+        </li>
+      `
+    )
+    .join('');
+
+  list.querySelectorAll<HTMLElement>('.storage-report-entry').forEach((entry) => {
+    entry.addEventListener('click', () => onShowItem(entry.dataset.itemId || ''));
+  });
+}
@@ -0,0 +1,54 @@
+/**
+ * Component for the tag filter bar in the sidebar
+ */
+import { CapturedItem } from '../../types';
+import { escapeHtml } from '../../utils/dom';
+
+/**
+ * Counts how many items carry each tag
+ * @returns Tag counts, most used first
+ */
+export function countTags(items: CapturedItem[]): [string, number][] {
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    item.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) || 0) + 1));
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * Renders the tag chips of the current collection. The bar is hidden when no item is tagged.
+ * @param container The filter bar element
+ * @param items All items of the collection
+ * @param activeTags Tags currently used for filtering
+ * @param onToggle Called with a tag when its chip is clicked
+ * @param onClear Called when the clear chip is clicked
+ */
+export function renderTagFilter(
+  container: HTMLElement,
+  items: CapturedItem[],
+  activeTags: Set<string>,
+  onToggle: (tag: string) => void,
+  onClear: () => void
+) {
+  const tags = countTags(items);
+  container.hidden = tags.length === 0;
+  container.innerHTML = tags
+    .map(
+      ([tag, count]) =>
+        `<span class="tag-chip${activeTags.has(tag) ? ' active' : ''}" data-tag="${escapeHtml(tag)}">#${escapeHtml(tag)}<span class="tag-count">${count}</span></span>`
+    )
+    .join('');
+
+  if (activeTags.size > 0) {
+    container.insertAdjacentHTML(
+      'beforeend',
+      '<span class="tag-chip tag-clear" title="Show all items">✕ clear</span>'
+    );
+    container.querySelector('.tag-clear')?.addEventListener('click', onClear);
+  }
+
+  container.querySelectorAll<HTMLElement>('.tag-chip[data-tag]').forEach((chip) => {
+    chip.addEventListener('click', () => onToggle(chip.dataset.tag || ''));
+  });
+}
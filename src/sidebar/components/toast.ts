@@ -0,0 +1,43 @@
+/**
+ * Component for the Undo toast shown after deleting, clearing or reordering items
+ */
+
+const TOAST_DURATION_MS = 8000;
+
+let activeToast: { element: HTMLElement; timer: ReturnType<typeof setTimeout> } | null = null;
+
+function dismissToast() {
+  if (!activeToast) return;
+  clearTimeout(activeToast.timer);
+  activeToast.element.remove();
+  activeToast = null;
+}
+
+/**
+ * Shows a message with an Undo button at the bottom of the sidebar. Only one toast is shown
+ * at a time; a new one replaces the previous, whose change can then no longer be undone here.
+ * @param message What just happened
+ * @param onUndo Reverts the change
+ */
+export function showUndoToast(message: string, onUndo: () => void) {
+  dismissToast();
+
+  const element = document.createElement('div');
+  element.className = 'toast';
+  element.setAttribute('role', 'status');
+
+  const text = document.createElement('span');
+  text.textContent = message;
+
+  const undoBtn = document.createElement('button');
+  undoBtn.className = 'toast-undo';
+  undoBtn.textContent = 'Undo';
+  undoBtn.addEventListener('click', () => {
+    dismissToast();
+    onUndo();
+  });
+
+  element.append(text, undoBtn);
+  document.body.appendChild(element);
+  activeToast = { element, timer: setTimeout(dismissToast, TOAST_DURATION_MS) };
+}
@@ -0,0 +1,81 @@
+/**
+ * Component for the trash panel in the sidebar
+ */
+import { CapturedItem, CollectionSummary, TrashedItem } from '../../types';
+import { escapeHtml } from '../../utils/dom';
+
+export interface TrashCallbacks {
+  onRestore: (batchId: string) => void;
+  onDelete: (batchId: string) => void;
+}
+
+/**
+ * The text an item is listed under: its title, else what was captured
+ */
+export function getItemLabel(item: CapturedItem): string {
+  if (item.title) return item.title;
+  const metadata = item.metadata as unknown as Record<string, string | undefined>;
+  return (
+    metadata.text || metadata.code || metadata.caption || metadata.alt || metadata.href || item.type
+  );
+}
+
+/**
+ * Groups trash entries into their batches, keeping the order of the entries
+ */
+function groupBatches(entries: TrashedItem[]): TrashedItem[][] {
+  const batches = new Map<string, TrashedItem[]>();
+  entries.forEach((entry) => {
+    batches.set(entry.batchId, [...(batches.get(entry.batchId) || []), entry]);
+  });
+  return [...batches.values()];
+}
+
+/**
+ * Renders the trash, one row per batch of items deleted together
+ * @param list The list element inside the panel
+ * @param entries Trash entries, most recently deleted first
+ * @param collections Collections, used to show where items came from
+ * @param callbacks Restore and permanent delete actions
+ */
+export function renderTrash(
+  list: HTMLElement,
+  entries: TrashedItem[],
+  collections: CollectionSummary[],
+  callbacks: TrashCallbacks
+) {
+  if (entries.length === 0) {
+    list.innerHTML = '<li class="trash-empty">The trash is empty.</li>';
+    return;
+  }
+
+  list.innerHTML = groupBatches(entries)
+    .map((batch) => {
+      const [first] = batch;
+      const label =
+        batch.length === 1 ? getItemLabel(first.item) : `${batch.length} items (Clear All)`;
+      const collectionName =
+        collections.find((c) => c.id === first.collectionId)?.name || 'Deleted collection';
+      return `
+        <li class="trash-entry" data-batch-id="${escapeHtml(first.batchId)}">
+          <div class="trash-entry-text">
+            <div class="trash-entry-label">${escapeHtml(label)}</div>
+            <div class="trash-entry-meta">${escapeHtml(collectionName)} · ${new Date(first.deletedAt).toLocaleString()}</div>
+          </div>
+          <button class="trash-restore" title="Restore">Restore</button>
+          <button class="icon-btn trash-delete" title="Delete permanently">✕</button>
+        </li>
+      `;
+    })
+    .join('');
+
+  list.querySelectorAll<HTMLElement>('.trash-entry').forEach((row) => {
+    const batchId = row.dataset.batchId || '';
+    row
+      .querySelector('.trash-restore')
+      ?.addEventListener('click', () => callbacks.onRestore(batchId));
+    row
+      .querySelector('.trash-delete')
+      ?.addEventListener('click', () => callbacks.onDelete(batchId));
+  });
+}
@@ -0,0 +1,42 @@
+/**
+ * Helpers for saving exported files
+ */
+
+/**
+ * Builds a filesystem-friendly file name from the collection name
+ * @param collectionName Name of the exported collection
+ * @param extension File extension without the dot
+ */
+export function getExportFilename(collectionName: string | undefined, extension: string): string {
+  const slug = (collectionName || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'captured-notes'}.${extension}`;
+}
+
+/**
+ * Saves a blob through the downloads API, letting the user pick the location
+ * @param blob The file contents
+ * @param filename Suggested file name
+ */
+export async function downloadBlob(blob: Blob, filename: string): Promise<void> {
+  const url = URL.createObjectURL(blob);
+  let downloadId: number;
+  try {
+    downloadId = await browser.downloads.download({ url, filename, saveAs: true });
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+
+  // The object URL must stay valid until the browser has finished reading it
+  const onChanged = (delta: browser.downloads._OnChangedDownloadDelta) => {
+    if (delta.id !== downloadId || !delta.state) return;
+    if (delta.state.current === 'complete' || delta.state.current === 'interrupted') {
+      browser.downloads.onChanged.removeListener(onChanged);
+      URL.revokeObjectURL(url);
+    }
+  };
+  browser.downloads.onChanged.addListener(onChanged);
+}
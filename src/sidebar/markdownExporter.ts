@@ -0,0 +1,228 @@
+/**
+ * Logic for exporting captured items as Markdown
+ */
+import { CapturedItem, PageMetadata, TableCell } from '../types';
+import { getBlob, getBlobId, isBlobRef, blobToDataUrl } from '../utils/blobStore';
+import { hasAllTags } from '../utils/tags';
+import { countHeaderRows, toGrid } from '../utils/table';
+import { formatVideoTime } from '../utils/video';
+import { createZip, ZipEntry } from '../utils/zip';
+import { downloadBlob, getExportFilename } from './download';
+
+export type MarkdownExportFormat = 'embedded' | 'zip';
+
+export interface MarkdownExportOptions {
+  /** "embedded" writes one .md file with data URIs; "zip" adds an assets/ folder */
+  format: MarkdownExportFormat;
+  /** Only include items carrying all of these tags */
+  tags?: string[];
+}
+
+const ASSETS_DIR = 'assets';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp',
+};
+
+/**
+ * Turns an item's stored image into a Markdown image target, collecting asset files as needed
+ */
+type ImageResolver = (item: CapturedItem) => Promise<string | null>;
+
+/**
+ * Generates and downloads a Markdown export of the captured items
+ * @param items The items of the collection being exported
+ * @param collectionName Name of the collection, used as the document title and file name
+ * @param options Output format and optional filtering
+ */
+export async function exportMarkdown(
+  items: CapturedItem[],
+  collectionName: string | undefined,
+  options: MarkdownExportOptions
+) {
+  const tags = options.tags || [];
+  const sortedItems = items
+    .filter((item) => hasAllTags(item, tags))
+    .sort((a, b) => a.order - b.order);
+  if (sortedItems.length === 0) return;
+
+  const title = collectionName || 'Captured Notes';
+  const assets: ZipEntry[] = [];
+
+  const resolveImage: ImageResolver = async (item) => {
+    // SVGs are exported as their vector source, which scales in any viewer
+    if (options.format !== 'embedded' && 'svg' in item.metadata && item.metadata.svg) {
+      const name = `${ASSETS_DIR}/${String(assets.length + 1).padStart(3, '0')}-${item.id}.svg`;
+      assets.push({ name, data: new TextEncoder().encode(item.metadata.svg) });
+      return name;
+    }
+    if (!isBlobRef(item.content)) return item.content || null;
+    const blob = await getBlob(getBlobId(item.content));
+    if (!blob) return null;
+    if (options.format === 'embedded') return blobToDataUrl(blob);
+
+    const extension = IMAGE_EXTENSIONS[blob.type] || 'bin';
+    const name = `${ASSETS_DIR}/${String(assets.length + 1).padStart(3, '0')}-${item.id}.${extension}`;
+    assets.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+    return name;
+  };
+
+  const markdown = await buildMarkdown(sortedItems, title, tags, resolveImage);
+
+  if (options.format === 'embedded') {
+    const blob = new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+    await downloadBlob(blob, getExportFilename(collectionName, 'md'));
+    return;
+  }
+
+  const markdownFile = {
+    name: getExportFilename(collectionName, 'md'),
+    data: new TextEncoder().encode(markdown),
+  };
+  await downloadBlob(
+    createZip([markdownFile, ...assets]),
+    getExportFilename(collectionName, 'zip')
+  );
+}
+
+/**
+ * Builds the Markdown document for the given items, which must already be in export order
+ */
+async function buildMarkdown(
+  items: CapturedItem[],
+  title: string,
+  tags: string[],
+  resolveImage: ImageResolver
+): Promise<string> {
+  const tagSuffix = tags.length > 0 ? ` · Tagged ${tags.map((t) => `#${t}`).join(', ')}` : '';
+  const sections = [
+    `# ${escapeMarkdownText(title)}`,
+    `*Exported on ${new Date().toLocaleString()}${tagSuffix}*`,
+  ];
+
+  for (const item of items) {
+    sections.push(await itemToMarkdown(item, resolveImage));
+  }
+
+  return sections.filter(Boolean).join('\n\n') + '\n';
+}
+
+async function itemToMarkdown(item: CapturedItem, resolveImage: ImageResolver): Promise<string> {
+  const blocks: string[] = [];
+
+  if (item.title) blocks.push(`## ${escapeMarkdownText(item.title)}`);
+
+  if (item.type === 'link' && 'href' in item.metadata) {
+    const text = item.metadata.text || item.metadata.href;
+    blocks.push(`[${escapeMarkdownText(text)}](${formatUrl(item.metadata.href)})`);
+  } else if (item.type === 'image' && 'alt' in item.metadata && 'originalSrc' in item.metadata) {
+    const { video } = item.metadata;
+    blocks.push(await imageToMarkdown(item, item.metadata.alt, resolveImage));
+    blocks.push(
+      video
+        ? `Video: [${formatVideoTime(video.time)}](${formatUrl(video.url)})`
+        : `Source: ${formatSourceLink(item.metadata.originalSrc)}`
+    );
+  } else if (item.type === 'text' && 'text' in item.metadata && 'sourceUrl' in item.metadata) {
+    blocks.push(toBlockquote(item.metadata.markdown || item.metadata.text));
+    blocks.push(`Source: ${formatSourceLink(item.metadata.sourceUrl, item.page)}`);
+  } else if (item.type === 'code' && 'code' in item.metadata) {
+    blocks.push(toCodeFence(item.metadata.code, item.metadata.language));
+    blocks.push(`Source: ${formatSourceLink(item.metadata.sourceUrl, item.page)}`);
+  } else if (item.type === 'table' && 'rows' in item.metadata) {
+    if (item.metadata.caption) blocks.push(`*${escapeMarkdownText(item.metadata.caption)}*`);
+    blocks.push(toMarkdownTable(item.metadata.rows));
+    blocks.push(`Source: ${formatSourceLink(item.metadata.sourceUrl, item.page)}`);
+  } else if (item.type === 'screenshot' && 'dimensions' in item.metadata) {
+    blocks.push(await imageToMarkdown(item, item.metadata.alt, resolveImage));
+    blocks.push(`Source: ${formatSourceLink(item.metadata.sourceUrl, item.page)}`);
+  }
+
+  if (item.tags?.length) blocks.push(item.tags.map((tag) => `#${tag}`).join(' '));
+
+  // Notes are Markdown already
+  if (item.note) blocks.push(item.note);
+
+  return blocks.join('\n\n');
+}
+
+async function imageToMarkdown(
+  item: CapturedItem,
+  alt: string,
+  resolveImage: ImageResolver
+): Promise<string> {
+  try {
+    const target = await resolveImage(item);
+    if (target) return `![${escapeMarkdownText(alt)}](${formatUrl(target)})`;
+  } catch (error) {
+    console.error('Failed to load image for Markdown export:', error);
+  }
+  return `*[Image unavailable: ${escapeMarkdownText(alt)}]*`;
+}
+
+/**
+ * Quotes text line by line, keeping paragraph breaks inside the quote
+ */
+function toBlockquote(text: string): string {
+  return text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => (line.trim() ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+/**
+ * Fences code, using a fence longer than any run of backticks inside it. The language comes
+ * from page markup, so one that would break the info string is left out.
+ */
+function toCodeFence(code: string, language = ''): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const info = /^[\w+#.-]+$/.test(language) ? language : '';
+  return `${fence}${info}\n${code}\n${fence}`;
+}
+
+/**
+ * Writes a pipe table. Markdown tables have exactly one header row, so an empty one is added
+ * when the table has none; spanned positions are left empty.
+ */
+function toMarkdownTable(rows: TableCell[][]): string {
+  const grid = toGrid(rows);
+  if (grid.length === 0 || grid[0].length === 0) return '';
+
+  const toRow = (cells: (TableCell | null)[]) =>
+    `| ${cells.map((cell) => escapeMarkdownText(cell?.text ?? '')).join(' | ')} |`;
+  const [header, ...body] = countHeaderRows(rows) > 0 ? grid : [grid[0].map(() => null), ...grid];
+  return [toRow(header), `| ${header.map(() => '---').join(' | ')} |`, ...body.map(toRow)].join(
+    '\n'
+  );
+}
+
+/**
+ * Links to the source page, named by its title when it was recorded
+ */
+function formatSourceLink(url: string, page?: PageMetadata): string {
+  if (page?.title)
+    return `[${escapeMarkdownText(page.title)}](${formatUrl(page.canonicalUrl || url)})`;
+  return `[${escapeMarkdownText(url)}](${formatUrl(url)})`;
+}
+
+/**
+ * Escapes characters that would otherwise be read as Markdown syntax in link or heading text
+ */
+function escapeMarkdownText(text: string): string {
+  return text.replace(/[\\`*_[\]<>#|]/g, '\\$&').replace(/\s+/g, ' ');
+}
+
+/**
+ * Wraps a link target in angle brackets when it contains characters that end a plain target
+ */
+function formatUrl(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
@@ -1,7 +1,14 @@
 /**
  * Logic for generating PDF documents from captured items
  */
-import { CapturedItem } from '../types';
+import { CapturedItem, LinkPreview, TableCell } from '../types';
+import { getHostname } from '../utils/url';
+import { isBlobRef, resolveContentToDataUrl } from '../utils/blobStore';
+import { InlineNode, parseMarkdown } from '../utils/markdown';
+import { hasAllTags } from '../utils/tags';
+import { countHeaderRows, toGrid } from '../utils/table';
+import { formatVideoTime } from '../utils/video';
+import { getExportFilename } from './download';
 
 // Types for pdfMake (internal to this module for simplicity)
 interface PdfMake {
@@ -14,15 +21,29 @@ interface PdfMake {
 
 declare const pdfMake: PdfMake;
 
+export interface PdfOptions {
+  /** Only include items carrying all of these tags */
+  tags?: string[];
+}
+
 /**
  * Generates and downloads a PDF of the captured items
+ * @param items The items of the collection being exported
+ * @param collectionName Name of the collection, used as the document title and file name
+ * @param options Optional filtering of the exported items
  */
-export function generatePdf(items: CapturedItem[]) {
+export async function generatePdf(
+  items: CapturedItem[],
+  collectionName?: string,
+  options: PdfOptions = {}
+) {
+  const tags = options.tags || [];
+  items = items.filter((item) => hasAllTags(item, tags));
   if (items.length === 0) return;
 
-  // Determine the title: use the most recent item's source URL if available, or a default
-  let title = 'Captured Notes';
-  const sortedItems = [...items].sort((a, b) => b.timestamp - a.timestamp);
+  // Determine the title: the collection name, else the most recent item's source URL, else a default
+  let title = collectionName || 'Captured Notes';
+  const sortedItems = collectionName ? [] : [...items].sort((a, b) => b.timestamp - a.timestamp);
 
   for (const item of sortedItems) {
     const meta = item.metadata as unknown as Record<string, string | undefined>;
@@ -38,20 +59,215 @@ export function generatePdf(items: CapturedItem[]) {
     }
   }
 
-  const docDefinition = createDocDefinition(items, title);
-  pdfMake.createPdf(docDefinition).download('captured-notes.pdf');
+  const [resolvedItems, images] = await Promise.all([
+    resolveMediaContent(items),
+    loadItemImages(items),
+  ]);
+  const docDefinition = createDocDefinition(resolvedItems, title, tags, images);
+  pdfMake.createPdf(docDefinition).download(getExportFilename(collectionName, 'pdf'));
+}
+
+// Stored images in formats pdfmake cannot read are redrawn at most this large
+const MEDIA_IMAGE_SIZE = 2560;
+
+/**
+ * Redraws an image as a PNG, since pdfmake only reads PNG and JPEG
+ * @param maxSize The longer side of the result, in pixels
+ */
+async function redrawAsPng(dataUrl: string, maxSize: number): Promise<string> {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight, 1));
+  const canvas = document.createElement('canvas');
+  // SVGs without intrinsic dimensions report zero
+  canvas.width = Math.round(image.naturalWidth * scale) || maxSize;
+  canvas.height = Math.round(image.naturalHeight * scale) || maxSize;
+  canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Returns copies of the items with blob store references replaced by PNG or JPEG data URLs,
+ * which are the only image sources pdfmake understands
+ */
+async function resolveMediaContent(items: CapturedItem[]): Promise<CapturedItem[]> {
+  return Promise.all(
+    items.map(async (item) => {
+      if (!isBlobRef(item.content)) return item;
+      try {
+        const dataUrl = await resolveContentToDataUrl(item.content);
+        if (!dataUrl || /^data:image\/(png|jpeg)[;,]/.test(dataUrl)) {
+          return { ...item, content: dataUrl ?? '' };
+        }
+        // Such as WebP from the media settings, or SVG kept as captured
+        return { ...item, content: await redrawAsPng(dataUrl, MEDIA_IMAGE_SIZE) };
+      } catch (error) {
+        console.error('Failed to load image for PDF:', error);
+        return { ...item, content: '' };
+      }
+    })
+  );
+}
+
+const FAVICON_SIZE = 16;
+// Preview images are drawn at most this wide in the PDF, so larger sizes only add weight
+const LINK_PREVIEW_IMAGE_SIZE = 160;
+const REMOTE_IMAGE_TIMEOUT_MS = 3000;
+
+// Images that are not stored with the items, as PNG data URLs keyed by their URL
+interface RemoteImages {
+  favicons: Map<string, string>;
+  previews: Map<string, string>;
+}
+
+/**
+ * Fetches an image through the background script and redraws it as a PNG, since favicons are
+ * often ICO or SVG
+ * @param maxSize The longer side of the result, in pixels
+ * @returns The PNG data URL, or null if the image could not be loaded in time
+ */
+async function loadRemoteImage(url: string, maxSize: number): Promise<string | null> {
+  const load = async () => {
+    const response = (await browser.runtime.sendMessage({
+      type: 'FETCH_IMAGE',
+      data: { url },
+    })) as { success: boolean; data?: { dataUrl: string } };
+    if (!response.success || !response.data?.dataUrl.startsWith('data:image/')) return null;
+    return redrawAsPng(response.data.dataUrl, maxSize);
+  };
+
+  try {
+    return await Promise.race([
+      load(),
+      new Promise<null>((resolve) => setTimeout(() => resolve(null), REMOTE_IMAGE_TIMEOUT_MS)),
+    ]);
+  } catch (error) {
+    console.warn('Failed to load image for PDF:', url, error);
+    return null;
+  }
+}
+
+/**
+ * Loads each distinct image once; images that fail are left out of the map
+ */
+async function loadRemoteImages(
+  urls: (string | undefined)[],
+  maxSize: number
+): Promise<Map<string, string>> {
+  const images = new Map<string, string>();
+  await Promise.all(
+    [...new Set(urls)].map(async (url) => {
+      const png = url && (await loadRemoteImage(url, maxSize));
+      if (url && png) images.set(url, png);
+    })
+  );
+  return images;
+}
+
+/**
+ * Loads the source pages' favicons and the link preview images of the items
+ */
+async function loadItemImages(items: CapturedItem[]): Promise<RemoteImages> {
+  const [favicons, previews] = await Promise.all([
+    loadRemoteImages(
+      items.map((item) => item.page?.favicon),
+      FAVICON_SIZE
+    ),
+    loadRemoteImages(
+      items.map((item) => ('preview' in item.metadata ? item.metadata.preview?.image : undefined)),
+      LINK_PREVIEW_IMAGE_SIZE
+    ),
+  ]);
+  return { favicons, previews };
+}
+
+/**
+ * Builds the source line of an item: the page's favicon and title, linked to the page. Items
+ * saved without page details show the URL itself.
+ */
+function sourceToPdf(
+  item: CapturedItem,
+  url: string,
+  favicons: Map<string, string>
+): Record<string, unknown> {
+  const margin = [10, 0, 0, 0];
+  const { page } = item;
+  if (!page) return { text: `Source: ${url}`, style: 'url', margin };
+
+  const pageUrl = page.canonicalUrl || page.url;
+  const hostname = getHostname(pageUrl);
+  const label = page.title && hostname ? `${page.title} · ${hostname}` : page.title || pageUrl;
+  const text = { text: label, link: pageUrl, style: 'url' };
+  const favicon = page.favicon && favicons.get(page.favicon);
+  if (!favicon) return { ...text, margin };
+
+  return {
+    columns: [
+      { image: favicon, width: 9, height: 9, margin: [0, 1, 0, 0] },
+      { ...text, width: '*' },
+    ],
+    columnGap: 4,
+    margin,
+  };
+}
+
+/**
+ * Builds a bordered card with a link's preview image, title and description, linked to the page
+ * @returns The card, or null if the preview has no text to show
+ */
+function linkPreviewToPdf(
+  href: string,
+  preview: LinkPreview,
+  previewImages: Map<string, string>
+): Record<string, unknown> | null {
+  if (!preview.title && !preview.description) return null;
+
+  const text: unknown[] = [];
+  const site = preview.siteName || getHostname(href);
+  if (site) text.push({ text: site, style: 'linkPreviewSite' });
+  if (preview.title) text.push({ text: preview.title, style: 'linkPreviewTitle', link: href });
+  if (preview.description) {
+    text.push({ text: preview.description, style: 'linkPreviewDescription' });
+  }
+
+  const image = preview.image && previewImages.get(preview.image);
+  const cells: unknown[] = [{ stack: text }];
+  if (image) cells.unshift({ image, fit: [60, 60], link: href });
+
+  return {
+    table: { widths: image ? [60, '*'] : ['*'], body: [cells] },
+    layout: {
+      hLineWidth: () => 0.5,
+      vLineWidth: () => 0.5,
+      hLineColor: () => '#dddddd',
+      vLineColor: () => '#dddddd',
+      paddingLeft: () => 6,
+      paddingRight: () => 6,
+      paddingTop: () => 4,
+      paddingBottom: () => 4,
+    },
+    margin: [10, 4, 0, 2],
+  };
 }
 
 /**
  * Creates the document definition for pdfMake
+ * @param images Favicons and link preview images, already converted for pdfMake
  */
-function createDocDefinition(items: CapturedItem[], title: string): unknown {
+function createDocDefinition(
+  items: CapturedItem[],
+  title: string,
+  tags: string[],
+  images: RemoteImages
+): unknown {
   const content: unknown[] = [];
 
   // Title
   content.push({ text: title, style: 'title' });
+  const tagSuffix = tags.length > 0 ? ` · Tagged ${tags.map((t) => `#${t}`).join(', ')}` : '';
   content.push({
-    text: `Generated on ${new Date().toLocaleString()}`,
+    text: `Generated on ${new Date().toLocaleString()}${tagSuffix}`,
     style: 'subtitle',
     margin: [0, 0, 0, 20],
   });
@@ -62,6 +278,7 @@ function createDocDefinition(items: CapturedItem[], title: string): unknown {
   // Add each item
   sortedItems.forEach((item) => {
     // No labels or numbering as per user request
+    const itemStart = content.length;
 
     if (item.type === 'link' && 'href' in item.metadata) {
       content.push({
@@ -73,6 +290,11 @@ function createDocDefinition(items: CapturedItem[], title: string): unknown {
       if (item.metadata.text && item.metadata.text !== item.metadata.href) {
         content.push({ text: item.metadata.href, style: 'url', margin: [10, 0, 0, 0] });
       }
+      if (item.metadata.preview) {
+        const card = linkPreviewToPdf(item.metadata.href, item.metadata.preview, images.previews);
+        if (card) content.push(card);
+      }
+      if (item.page) content.push(sourceToPdf(item, item.page.url, images.favicons));
     } else if (item.type === 'image' && 'alt' in item.metadata && 'originalSrc' in item.metadata) {
       if (item.content?.startsWith('data:image/')) {
         try {
@@ -80,18 +302,59 @@ function createDocDefinition(items: CapturedItem[], title: string): unknown {
           if (item.metadata.alt) {
             content.push({ text: item.metadata.alt, style: 'imageCaption', margin: [10, 5, 0, 2] });
           }
-          content.push({ text: item.metadata.originalSrc, style: 'url', margin: [10, 0, 0, 0] });
+          const { video } = item.metadata;
+          content.push(
+            video
+              ? {
+                  text: `▶ ${formatVideoTime(video.time)}`,
+                  link: video.url,
+                  style: 'link',
+                  margin: [10, 0, 0, 0],
+                }
+              : { text: item.metadata.originalSrc, style: 'url', margin: [10, 0, 0, 0] }
+          );
+          if (item.page) content.push(sourceToPdf(item, item.page.url, images.favicons));
         } catch {
           content.push({ text: `[Image Error]`, style: 'error', margin: [10, 0, 0, 2] });
         }
       }
     } else if (item.type === 'text' && 'text' in item.metadata && 'sourceUrl' in item.metadata) {
-      content.push({ text: item.metadata.text, style: 'capturedText', margin: [10, 15, 0, 5] });
+      if (item.metadata.markdown) {
+        content.push({
+          stack: markdownToPdfContent(item.metadata.markdown),
+          style: 'capturedRichText',
+          margin: [10, 15, 0, 5],
+        });
+      } else {
+        content.push({ text: item.metadata.text, style: 'capturedText', margin: [10, 15, 0, 5] });
+      }
+      content.push(sourceToPdf(item, item.metadata.sourceUrl, images.favicons));
+    } else if (item.type === 'code' && 'code' in item.metadata) {
+      if (item.metadata.language) {
+        content.push({
+          text: item.metadata.language,
+          style: 'codeLanguage',
+          margin: [10, 15, 0, 2],
+        });
+      }
+      content.push({
+        ...codeBlockToPdf(item.metadata.code, 'code'),
+        margin: [10, item.metadata.language ? 0 : 15, 0, 5],
+      });
+      content.push(sourceToPdf(item, item.metadata.sourceUrl, images.favicons));
+    } else if (item.type === 'table' && 'rows' in item.metadata) {
+      if (item.metadata.caption) {
+        content.push({
+          text: item.metadata.caption,
+          style: 'imageCaption',
+          margin: [10, 15, 0, 2],
+        });
+      }
       content.push({
-        text: `Source: ${item.metadata.sourceUrl}`,
-        style: 'url',
-        margin: [10, 0, 0, 0],
+        ...tableToPdf(item.metadata.rows),
+        margin: [10, item.metadata.caption ? 0 : 15, 0, 5],
       });
+      content.push(sourceToPdf(item, item.metadata.sourceUrl, images.favicons));
     } else if (item.type === 'screenshot' && 'dimensions' in item.metadata) {
       if (item.content?.startsWith('data:image/')) {
         try {
@@ -99,12 +362,31 @@ function createDocDefinition(items: CapturedItem[], title: string): unknown {
           if (item.metadata.alt) {
             content.push({ text: item.metadata.alt, style: 'imageCaption', margin: [10, 5, 0, 2] });
           }
-          content.push({ text: item.metadata.sourceUrl, style: 'url', margin: [10, 0, 0, 0] });
+          content.push(sourceToPdf(item, item.metadata.sourceUrl, images.favicons));
         } catch {
           content.push({ text: `[Screenshot Error]`, style: 'error', margin: [10, 0, 0, 2] });
         }
       }
     }
+
+    if (item.title && content.length > itemStart) {
+      // The title takes over the item's top spacing
+      const first = content[itemStart] as { margin?: number[] };
+      if (first.margin) first.margin[1] = 4;
+      content.splice(itemStart, 0, {
+        text: item.title,
+        style: 'itemTitle',
+        margin: [10, 15, 0, 0],
+      });
+    }
+
+    if (item.note) {
+      content.push({
+        stack: markdownToPdfContent(item.note),
+        style: 'note',
+        margin: [10, 6, 0, 0],
+      });
+    }
   });
 
   return {
@@ -116,9 +398,143 @@ function createDocDefinition(items: CapturedItem[], title: string): unknown {
       link: { fontSize: 12, color: '#0000ff', decoration: 'underline' },
       url: { fontSize: 9, color: '#666666' },
       capturedText: { fontSize: 11, italics: true, background: '#f5f5f5', margin: [10, 5, 10, 5] },
+      capturedRichText: { fontSize: 11 },
+      code: { font: 'Courier', fontSize: 9 },
+      codeLanguage: { fontSize: 8, color: '#666666' },
+      table: { fontSize: 9 },
+      tableHeader: { bold: true, fillColor: '#f0f0f0' },
+      linkPreviewSite: { fontSize: 8, color: '#666666' },
+      linkPreviewTitle: { fontSize: 10, bold: true },
+      linkPreviewDescription: { fontSize: 9, color: '#444444' },
       imageCaption: { fontSize: 10, italics: true, color: '#444444' },
+      itemTitle: { fontSize: 13, bold: true },
+      note: { fontSize: 10, color: '#333333' },
+      noteCode: { font: 'Courier', fontSize: 9, background: '#eeeeee' },
       error: { fontSize: 10, color: 'red' },
     },
     defaultStyle: { font: 'Roboto' },
   };
 }
+
+function inlineToPdf(nodes: InlineNode[]): unknown[] {
+  return nodes.map((node) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'bold':
+        return { text: inlineToPdf(node.children), bold: true };
+      case 'italic':
+        return { text: inlineToPdf(node.children), italics: true };
+      case 'code':
+        return { text: node.text, style: 'noteCode' };
+      case 'link':
+        return {
+          text: inlineToPdf(node.children),
+          link: node.href,
+          color: '#0000ff',
+          decoration: 'underline',
+        };
+    }
+  });
+}
+
+/**
+ * Converts Markdown (a note or a formatted text capture) into pdfMake content nodes
+ */
+function markdownToPdfContent(source: string): unknown[] {
+  return parseMarkdown(source).map((block) => {
+    switch (block.type) {
+      case 'paragraph':
+        return { text: inlineToPdf(block.children), margin: [0, 0, 0, 4] };
+      case 'heading':
+        return {
+          text: inlineToPdf(block.children),
+          bold: true,
+          fontSize: Math.max(10, 15 - block.level),
+          margin: [0, 2, 0, 2],
+        };
+      case 'list': {
+        const items = block.items.map((item) => ({ text: inlineToPdf(item) }));
+        return block.ordered
+          ? { ol: items, margin: [0, 0, 0, 4] }
+          : { ul: items, margin: [0, 0, 0, 4] };
+      }
+      case 'quote':
+        return {
+          text: inlineToPdf(block.children),
+          italics: true,
+          color: '#666666',
+          margin: [8, 0, 0, 4],
+        };
+      case 'code':
+        return { ...codeBlockToPdf(block.text, 'noteCode'), margin: [0, 0, 0, 4] };
+    }
+  });
+}
+
+/**
+ * Renders captured rows as a pdfMake table. Header rows repeat when the table spans pages.
+ */
+function tableToPdf(rows: TableCell[][]): Record<string, unknown> {
+  const grid = toGrid(rows);
+  const columnCount = grid[0]?.length ?? 0;
+  if (columnCount === 0) return { text: '[Empty table]', style: 'error' };
+
+  const body = grid.map((row, r) =>
+    row.map((cell) => {
+      // pdfMake expects an empty placeholder in every position a span covers
+      if (!cell) return {};
+      const node: Record<string, unknown> = { text: cell.text };
+      if (cell.header) node.style = 'tableHeader';
+      if (cell.colSpan && cell.colSpan > 1) node.colSpan = cell.colSpan;
+      if (cell.rowSpan && cell.rowSpan > 1) node.rowSpan = Math.min(cell.rowSpan, grid.length - r);
+      return node;
+    })
+  );
+
+  return {
+    table: {
+      headerRows: Math.min(countHeaderRows(rows), body.length - 1),
+      widths: Array.from({ length: columnCount }, () => '*'),
+      body,
+    },
+    style: 'table',
+    layout: {
+      hLineWidth: () => 0.5,
+      vLineWidth: () => 0.5,
+      hLineColor: () => '#cccccc',
+      vLineColor: () => '#cccccc',
+    },
+  };
+}
+
+/**
+ * Renders code as a bordered box. Indentation is kept and long lines wrap inside the box.
+ */
+function codeBlockToPdf(code: string, style: string): Record<string, unknown> {
+  return {
+    table: {
+      widths: ['*'],
+      body: [
+        [
+          {
+            text: code.replace(/\t/g, '    '),
+            style,
+            preserveLeadingSpaces: true,
+            fillColor: '#f5f5f5',
+          },
+        ],
+      ],
+    },
+    layout: {
+      hLineWidth: () => 0.5,
+      vLineWidth: () => 0.5,
+      hLineColor: () => '#dddddd',
+      vLineColor: () => '#dddddd',
+      paddingLeft: () => 6,
+      paddingRight: () => 6,
+      paddingTop: () => 4,
+      paddingBottom: () => 4,
+    },
+  };
+}
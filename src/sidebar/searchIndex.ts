@@ -0,0 +1,119 @@
+/**
+ * Full-text search over captured items
+ *
+ * Each item's searchable text is lowercased once and cached by object identity. Items are
+ * replaced rather than mutated when they change, so edits invalidate their entry for free and
+ * a keystroke only costs a substring check per item, even at the item limit.
+ */
+import { CapturedItem } from '../types';
+
+const index = new WeakMap<CapturedItem, string>();
+
+/**
+ * Collects the fields a user would search by: visible text, URLs, title, tags and notes
+ */
+function getSearchableFields(item: CapturedItem): string[] {
+  const metadata = item.metadata as unknown as Record<string, unknown>;
+  const fields = ['text', 'code', 'language', 'caption', 'href', 'alt', 'originalSrc', 'sourceUrl']
+    .map((key) => metadata[key])
+    .filter((value): value is string => typeof value === 'string');
+  // The cells of a table are searched through its CSV content
+  if (item.type === 'table') fields.push(item.content);
+  if (item.page) fields.push(item.page.title || '', item.page.siteName || '');
+  if ('preview' in item.metadata && item.metadata.preview) {
+    fields.push(item.metadata.preview.title || '', item.metadata.preview.description || '');
+  }
+  return [...fields, item.title || '', item.note || '', ...(item.tags || [])];
+}
+
+function getSearchText(item: CapturedItem): string {
+  let text = index.get(item);
+  if (text === undefined) {
+    text = getSearchableFields(item).join('\n').toLowerCase();
+    index.set(item, text);
+  }
+  return text;
+}
+
+/**
+ * Splits a search query into lowercase terms
+ * @param query Raw input from the search box
+ */
+export function parseSearchQuery(query: string): string[] {
+  return [...new Set(query.toLowerCase().split(/\s+/).filter(Boolean))];
+}
+
+/**
+ * Checks whether an item contains every search term
+ * @param item The item to test
+ * @param terms Terms from parseSearchQuery; an empty list matches every item
+ */
+export function matchesSearch(item: CapturedItem, terms: string[]): boolean {
+  if (terms.length === 0) return true;
+  const text = getSearchText(item);
+  return terms.every((term) => text.includes(term));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Wraps occurrences of the search terms in the text nodes under an element in <mark> tags
+ * @param root The rendered element to highlight in
+ * @param terms Terms from parseSearchQuery
+ */
+export function highlightMatches(root: HTMLElement, terms: string[]) {
+  if (terms.length === 0) return;
+
+  // Longer terms first, so "note" wins over "no" where both match
+  const pattern = new RegExp(
+    [...terms]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegExp)
+      .join('|'),
+    'gi'
+  );
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  textNodes.forEach((node) => {
+    const text = node.data;
+    pattern.lastIndex = 0;
+    if (!pattern.test(text)) return;
+
+    const fragment = document.createDocumentFragment();
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      if (start > last) fragment.append(text.slice(last, start));
+      const mark = document.createElement('mark');
+      mark.textContent = match[0];
+      fragment.append(mark);
+      last = start + match[0].length;
+    }
+    if (last < text.length) fragment.append(text.slice(last));
+    node.replaceWith(fragment);
+  });
+}
+
+/**
+ * Picks the part of a long text to show so that the first match is visible
+ * @param text The full text
+ * @param terms Terms from parseSearchQuery
+ * @param maxLength Length of the excerpt, without ellipses
+ */
+export function getMatchExcerpt(text: string, terms: string[], maxLength: number): string {
+  if (text.length <= maxLength) return text;
+
+  const lower = text.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((i) => i !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+  if (first + 20 < maxLength) return text.substring(0, maxLength) + '...';
+
+  const start = Math.max(0, Math.min(first - 20, text.length - maxLength));
+  const end = start + maxLength;
+  return `...${text.substring(start, end)}${end < text.length ? '...' : ''}`;
+}
@@ -2,21 +2,83 @@
  * Sidebar UI logic for Notes Collector extension
  */
 import './sidebar.scss';
-import { CapturedItem, Message } from '../types';
+import {
+  BackupFile,
+  CapturedItem,
+  CollectionsState,
+  ImportMode,
+  ImportResult,
+  ItemChanges,
+  LinkCheck,
+  Message,
+  Settings,
+  StorageReport,
+  TrashedItem,
+} from '../types';
 import { createItemElement } from './components/itemRenderer';
+import { renderTagFilter } from './components/tagFilter';
+import { showUndoToast } from './components/toast';
+import { renderTrash } from './components/trashPanel';
+import { renderStorageReport } from './components/storageReport';
 import { setupDragAndDrop, DragDropHandlers } from './dragDrop';
 import { generatePdf } from './pdfGenerator';
+import { exportMarkdown } from './markdownExporter';
+import { downloadBlob, getExportFilename } from './download';
+import { releaseThumbnails } from './thumbnailLoader';
+import { matchesSearch, parseSearchQuery } from './searchIndex';
+import { hasAllTags } from '../utils/tags';
+import { openAnnotationEditor } from '../utils/annotationEditor';
+import { resolveContentToDataUrl } from '../utils/blobStore';
+
+const SEARCH_DEBOUNCE_MS = 150;
 
 class SidebarController {
   private capturedItems: CapturedItem[] = [];
+  private collectionsState: CollectionsState = { collections: [], activeCollectionId: '' };
+  private activeTags = new Set<string>();
+  private searchTerms: string[] = [];
+  private searchTimer: ReturnType<typeof setTimeout> | undefined;
   private isExtensionEnabled = true;
 
   // DOM elements
   private itemsContainer!: HTMLElement;
   private savePdfBtn!: HTMLButtonElement;
   private clearAllBtn!: HTMLButtonElement;
+  private exportBtn!: HTMLButtonElement;
+  private exportMenu!: HTMLElement;
+  private importFile!: HTMLInputElement;
+  private importMode: ImportMode = 'merge';
   private toggleEnabledBtn!: HTMLButtonElement;
+  private capturePageBtn!: HTMLButtonElement;
+  private pickElementBtn!: HTMLButtonElement;
+  private galleryBtn!: HTMLButtonElement;
+  private collectionSelect!: HTMLSelectElement;
+  private newCollectionBtn!: HTMLButtonElement;
+  private renameCollectionBtn!: HTMLButtonElement;
+  private deleteCollectionBtn!: HTMLButtonElement;
+  private settingsBtn!: HTMLButtonElement;
+  private settingsPanel!: HTMLElement;
+  private quickTagSetting!: HTMLInputElement;
+  private annotateSetting!: HTMLInputElement;
+  private trashRetentionSetting!: HTMLSelectElement;
+  private imageMaxDimensionSetting!: HTMLSelectElement;
+  private imageFormatSetting!: HTMLSelectElement;
+  private imageQualitySetting!: HTMLSelectElement;
+  private keepOriginalSetting!: HTMLInputElement;
+  private storageSummary!: HTMLElement;
+  private storageReport!: HTMLElement;
+  private trashBtn!: HTMLButtonElement;
+  private trashPanel!: HTMLElement;
+  private trashList!: HTMLElement;
+  private emptyTrashBtn!: HTMLButtonElement;
+  private tagFilter!: HTMLElement;
+  private searchInput!: HTMLInputElement;
   private subtitle!: HTMLElement;
+  private checkLinksBtn!: HTMLButtonElement;
+  private linkCheckBar!: HTMLElement;
+  private linkCheckSummary!: HTMLElement;
+  private updateRedirectsBtn!: HTMLButtonElement;
+  private deleteBrokenBtn!: HTMLButtonElement;
 
   private dndHandlers!: DragDropHandlers;
 
@@ -43,8 +105,50 @@ class SidebarController {
     this.itemsContainer = document.getElementById('items-container')!;
     this.savePdfBtn = document.getElementById('save-pdf-btn') as HTMLButtonElement;
     this.clearAllBtn = document.getElementById('clear-all-btn') as HTMLButtonElement;
+    this.exportBtn = document.getElementById('export-btn') as HTMLButtonElement;
+    this.exportMenu = document.getElementById('export-menu')!;
+    this.importFile = document.getElementById('import-file') as HTMLInputElement;
     this.toggleEnabledBtn = document.getElementById('toggle-enabled-btn') as HTMLButtonElement;
+    this.capturePageBtn = document.getElementById('capture-page-btn') as HTMLButtonElement;
+    this.pickElementBtn = document.getElementById('pick-element-btn') as HTMLButtonElement;
+    this.galleryBtn = document.getElementById('gallery-btn') as HTMLButtonElement;
+    this.collectionSelect = document.getElementById('collection-select') as HTMLSelectElement;
+    this.newCollectionBtn = document.getElementById('new-collection-btn') as HTMLButtonElement;
+    this.renameCollectionBtn = document.getElementById(
+      'rename-collection-btn'
+    ) as HTMLButtonElement;
+    this.deleteCollectionBtn = document.getElementById(
+      'delete-collection-btn'
+    ) as HTMLButtonElement;
+    this.settingsBtn = document.getElementById('settings-btn') as HTMLButtonElement;
+    this.settingsPanel = document.getElementById('settings-panel')!;
+    this.quickTagSetting = document.getElementById('quick-tag-setting') as HTMLInputElement;
+    this.annotateSetting = document.getElementById('annotate-setting') as HTMLInputElement;
+    this.trashRetentionSetting = document.getElementById(
+      'trash-retention-setting'
+    ) as HTMLSelectElement;
+    this.imageMaxDimensionSetting = document.getElementById(
+      'image-max-dimension-setting'
+    ) as HTMLSelectElement;
+    this.imageFormatSetting = document.getElementById('image-format-setting') as HTMLSelectElement;
+    this.imageQualitySetting = document.getElementById(
+      'image-quality-setting'
+    ) as HTMLSelectElement;
+    this.keepOriginalSetting = document.getElementById('keep-original-setting') as HTMLInputElement;
+    this.storageSummary = document.getElementById('storage-summary')!;
+    this.storageReport = document.getElementById('storage-report')!;
+    this.trashBtn = document.getElementById('trash-btn') as HTMLButtonElement;
+    this.trashPanel = document.getElementById('trash-panel')!;
+    this.trashList = document.getElementById('trash-list')!;
+    this.emptyTrashBtn = document.getElementById('empty-trash-btn') as HTMLButtonElement;
+    this.tagFilter = document.getElementById('tag-filter')!;
+    this.searchInput = document.getElementById('search-input') as HTMLInputElement;
     this.subtitle = document.querySelector('.subtitle')!;
+    this.checkLinksBtn = document.getElementById('check-links-btn') as HTMLButtonElement;
+    this.linkCheckBar = document.getElementById('link-check-bar')!;
+    this.linkCheckSummary = document.getElementById('link-check-summary')!;
+    this.updateRedirectsBtn = document.getElementById('update-redirects-btn') as HTMLButtonElement;
+    this.deleteBrokenBtn = document.getElementById('delete-broken-btn') as HTMLButtonElement;
 
     // Setup DnD
     this.dndHandlers = setupDragAndDrop(
@@ -55,28 +159,233 @@ class SidebarController {
     );
 
     // Initial load
+    await this.loadCollections();
     await this.loadItems();
+    await this.loadSettings();
     await this.checkEnabledState();
 
     // Event listeners
     this.savePdfBtn.addEventListener('click', () => {
-      void generatePdf(this.capturedItems);
+      void generatePdf(this.capturedItems, this.getActiveCollectionName(), {
+        tags: [...this.activeTags],
+      });
     });
     this.clearAllBtn.addEventListener('click', () => {
       void this.handleClearAll();
     });
+    this.exportBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.exportMenu.hidden = !this.exportMenu.hidden;
+    });
+    this.exportMenu.querySelectorAll<HTMLButtonElement>('.export-option').forEach((option) => {
+      option.addEventListener('click', () => {
+        this.exportMenu.hidden = true;
+        void this.handleExport(option.dataset.format || '');
+      });
+    });
+    this.exportMenu.querySelectorAll<HTMLButtonElement>('.import-option').forEach((option) => {
+      option.addEventListener('click', () => {
+        this.exportMenu.hidden = true;
+        this.importMode = option.dataset.mode === 'replace' ? 'replace' : 'merge';
+        this.importFile.value = '';
+        this.importFile.click();
+      });
+    });
+    this.importFile.addEventListener('change', () => {
+      const file = this.importFile.files?.[0];
+      if (file) void this.handleImport(file, this.importMode);
+    });
+    document.addEventListener('click', (e) => {
+      if (!this.exportMenu.contains(e.target as Node)) this.exportMenu.hidden = true;
+    });
     this.toggleEnabledBtn.addEventListener('click', () => {
       void this.handleToggleEnabled();
     });
+    this.capturePageBtn.addEventListener('click', () => {
+      void this.handleCaptureFullPage();
+    });
+    this.pickElementBtn.addEventListener('click', () => {
+      void this.handleStartElementPicker();
+    });
+    this.galleryBtn.addEventListener('click', () => {
+      void this.handleStartGalleryPicker();
+    });
+    this.collectionSelect.addEventListener('change', () => {
+      void this.handleSwitchCollection(this.collectionSelect.value);
+    });
+    this.newCollectionBtn.addEventListener('click', () => {
+      void this.handleCreateCollection();
+    });
+    this.renameCollectionBtn.addEventListener('click', () => {
+      void this.handleRenameCollection();
+    });
+    this.deleteCollectionBtn.addEventListener('click', () => {
+      void this.handleDeleteCollection();
+    });
+    this.settingsBtn.addEventListener('click', () => {
+      this.settingsPanel.hidden = !this.settingsPanel.hidden;
+      if (!this.settingsPanel.hidden) void this.loadStorageReport();
+    });
+    this.quickTagSetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({ quickTagPrompt: this.quickTagSetting.checked });
+    });
+    this.annotateSetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({ annotateScreenshots: this.annotateSetting.checked });
+    });
+    this.trashRetentionSetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({
+        trashRetentionDays: Number(this.trashRetentionSetting.value),
+      });
+    });
+    this.imageMaxDimensionSetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({
+        imageMaxDimension: Number(this.imageMaxDimensionSetting.value),
+      });
+    });
+    this.imageFormatSetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({
+        imageFormat: this.imageFormatSetting.value as Settings['imageFormat'],
+      });
+    });
+    this.imageQualitySetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({ imageQuality: Number(this.imageQualitySetting.value) });
+    });
+    this.keepOriginalSetting.addEventListener('change', () => {
+      void this.handleUpdateSettings({ keepOriginalImages: this.keepOriginalSetting.checked });
+    });
+    this.checkLinksBtn.addEventListener('click', () => {
+      void this.handleCheckLinks();
+    });
+    this.updateRedirectsBtn.addEventListener('click', () => {
+      void this.handleUpdateRedirectedLinks();
+    });
+    this.deleteBrokenBtn.addEventListener('click', () => {
+      void this.handleDeleteBrokenLinks();
+    });
+    this.trashBtn.addEventListener('click', () => {
+      this.trashPanel.hidden = !this.trashPanel.hidden;
+      if (!this.trashPanel.hidden) void this.loadTrash();
+    });
+    this.emptyTrashBtn.addEventListener('click', () => {
+      if (!confirm('Permanently delete everything in the trash?')) return;
+      void this.handleEmptyTrash();
+    });
+    this.searchInput.addEventListener('input', () => {
+      // Typing re-renders the list, so wait for a short pause
+      clearTimeout(this.searchTimer);
+      this.searchTimer = setTimeout(() => this.applySearch(), SEARCH_DEBOUNCE_MS);
+    });
+    this.searchInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape' && this.searchInput.value) {
+        this.searchInput.value = '';
+        this.applySearch();
+      }
+    });
+  }
+
+  private applySearch() {
+    clearTimeout(this.searchTimer);
+    this.searchTerms = parseSearchQuery(this.searchInput.value);
+    this.renderItems();
+  }
+
+  private async loadSettings() {
+    try {
+      const response = (await browser.runtime.sendMessage({ type: 'GET_SETTINGS' })) as {
+        success: boolean;
+        data: Settings;
+      };
+      if (response.success) {
+        this.renderSettings(response.data);
+      }
+    } catch (e) {
+      console.error('Failed to load settings:', e);
+    }
+  }
+
+  private renderSettings(settings: Settings) {
+    this.quickTagSetting.checked = settings.quickTagPrompt;
+    this.annotateSetting.checked = settings.annotateScreenshots;
+    this.selectSettingValue(
+      this.trashRetentionSetting,
+      settings.trashRetentionDays,
+      `${settings.trashRetentionDays} days`
+    );
+    this.selectSettingValue(
+      this.imageMaxDimensionSetting,
+      settings.imageMaxDimension,
+      `${settings.imageMaxDimension} px`
+    );
+    this.imageFormatSetting.value = settings.imageFormat;
+    this.selectSettingValue(
+      this.imageQualitySetting,
+      settings.imageQuality,
+      String(settings.imageQuality)
+    );
+    this.keepOriginalSetting.checked = settings.keepOriginalImages;
+    // Originals are stored as captured, so the other image settings do not apply
+    [this.imageMaxDimensionSetting, this.imageFormatSetting, this.imageQualitySetting].forEach(
+      (select) => (select.disabled = settings.keepOriginalImages)
+    );
+  }
+
+  /**
+   * Selects a value, adding it as an option first if it was set to one the list does not offer
+   */
+  private selectSettingValue(select: HTMLSelectElement, value: number, label: string) {
+    const option = String(value);
+    if (!Array.from(select.options).some((o) => o.value === option)) {
+      select.add(new Option(label, option));
+    }
+    select.value = option;
+  }
+
+  private async loadStorageReport() {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'GET_STORAGE_REPORT',
+        data: { collectionId: this.collectionsState.activeCollectionId },
+      })) as { success: boolean; data?: StorageReport };
+      if (response.success && response.data) {
+        renderStorageReport(
+          this.storageSummary,
+          this.storageReport,
+          response.data,
+          this.capturedItems,
+          (id) => void this.showItem(id, this.collectionsState.activeCollectionId)
+        );
+      }
+    } catch (e) {
+      console.error('Failed to load storage report:', e);
+    }
+  }
+
+  private async loadCollections() {
+    try {
+      const response = (await browser.runtime.sendMessage({ type: 'GET_COLLECTIONS' })) as {
+        success: boolean;
+        data: CollectionsState;
+      };
+      if (response.success) {
+        this.collectionsState = response.data;
+        this.renderCollections();
+      }
+    } catch (e) {
+      console.error('Failed to load collections:', e);
+    }
   }
 
   private async loadItems() {
     try {
-      const response = (await browser.runtime.sendMessage({ type: 'GET_ITEMS' })) as {
+      const response = (await browser.runtime.sendMessage({
+        type: 'GET_ITEMS',
+        data: { collectionId: this.collectionsState.activeCollectionId },
+      })) as {
         success: boolean;
         data: CapturedItem[];
       };
       if (response.success) {
+        releaseThumbnails(this.capturedItems.map((i) => i.content));
         this.capturedItems = response.data.sort((a, b) => a.order - b.order);
         this.renderItems();
         this.updateUI();
@@ -105,8 +414,24 @@ class SidebarController {
     }
   }
 
+  /**
+   * Items of the active collection that pass the tag filter
+   */
+  private getTaggedItems(): CapturedItem[] {
+    const tags = [...this.activeTags];
+    return this.capturedItems.filter((item) => hasAllTags(item, tags));
+  }
+
+  /**
+   * Items of the active collection that pass the tag filter and the search
+   */
+  private getVisibleItems(): CapturedItem[] {
+    return this.getTaggedItems().filter((item) => matchesSearch(item, this.searchTerms));
+  }
+
   private renderItems() {
     this.itemsContainer.innerHTML = '';
+    this.renderTagFilter();
 
     if (this.capturedItems.length === 0) {
       this.itemsContainer.innerHTML =
@@ -114,8 +439,21 @@ class SidebarController {
       return;
     }
 
+    const visibleItems = this.getVisibleItems();
+    if (visibleItems.length === 0) {
+      this.itemsContainer.innerHTML = `<div class="empty-state">${
+        this.searchTerms.length > 0
+          ? 'No items match your search.'
+          : 'No items match the selected tags.'
+      }</div>`;
+      return;
+    }
+
     const callbacks = {
       onDelete: (id: string) => this.handleDeleteItem(id),
+      onUpdate: (id: string, changes: ItemChanges) => this.handleUpdateItem(id, changes),
+      onAnnotate: (id: string) => this.handleAnnotateItem(id),
+      onTagClick: (tag: string) => this.toggleTag(tag),
       onDragStart: (e: DragEvent) => this.dndHandlers.handleDragStart(e),
       onDragOver: (e: DragEvent) => this.dndHandlers.handleDragOver(e),
       onDrop: (e: DragEvent) => this.dndHandlers.handleDrop(e),
@@ -124,15 +462,118 @@ class SidebarController {
       onDragLeave: (e: DragEvent) => this.dndHandlers.handleDragLeave(e),
     };
 
-    this.capturedItems.forEach((item) => {
-      this.itemsContainer.appendChild(createItemElement(item, callbacks));
+    visibleItems.forEach((item) => {
+      this.itemsContainer.appendChild(createItemElement(item, callbacks, this.searchTerms));
+    });
+  }
+
+  private renderTagFilter() {
+    // Drop filters for tags that no longer exist in this collection
+    const existing = new Set(this.capturedItems.flatMap((item) => item.tags || []));
+    this.activeTags.forEach((tag) => {
+      if (!existing.has(tag)) this.activeTags.delete(tag);
+    });
+
+    renderTagFilter(
+      this.tagFilter,
+      this.capturedItems,
+      this.activeTags,
+      (tag) => this.toggleTag(tag),
+      () => {
+        this.activeTags.clear();
+        this.renderItems();
+        this.updateUI();
+      }
+    );
+  }
+
+  private toggleTag(tag: string) {
+    if (this.activeTags.has(tag)) {
+      this.activeTags.delete(tag);
+    } else {
+      this.activeTags.add(tag);
+    }
+    this.renderItems();
+    this.updateUI();
+  }
+
+  private renderCollections() {
+    const { collections, activeCollectionId } = this.collectionsState;
+    this.collectionSelect.innerHTML = '';
+    collections.forEach((collection) => {
+      const option = document.createElement('option');
+      option.value = collection.id;
+      option.textContent = `${collection.name} (${collection.itemCount})`;
+      option.selected = collection.id === activeCollectionId;
+      this.collectionSelect.appendChild(option);
     });
+    this.deleteCollectionBtn.disabled = collections.length <= 1;
+  }
+
+  private getActiveCollectionName(): string | undefined {
+    const { collections, activeCollectionId } = this.collectionsState;
+    return collections.find((c) => c.id === activeCollectionId)?.name;
+  }
+
+  /**
+   * Keeps the item count shown in the collection switcher in sync with local changes
+   */
+  private syncActiveCollectionCount() {
+    const active = this.collectionsState.collections.find(
+      (c) => c.id === this.collectionsState.activeCollectionId
+    );
+    if (active) {
+      active.itemCount = this.capturedItems.length;
+      this.renderCollections();
+    }
+  }
+
+  private isActiveCollection(collectionId: unknown): boolean {
+    return !collectionId || collectionId === this.collectionsState.activeCollectionId;
+  }
+
+  /**
+   * Drops items from the local list, releasing their cached thumbnails
+   */
+  private removeLocalItems(shouldRemove: (item: CapturedItem) => boolean) {
+    releaseThumbnails(this.capturedItems.filter(shouldRemove).map((i) => i.content));
+    this.capturedItems = this.capturedItems.filter((i) => !shouldRemove(i));
+    this.renderItems();
+    this.updateUI();
+  }
+
+  /**
+   * Replaces local items with their updated versions, for those that are shown
+   */
+  private replaceLocalItems(updatedItems: CapturedItem[]) {
+    let replaced = false;
+    updatedItems.forEach((updated) => {
+      const index = this.capturedItems.findIndex((i) => i.id === updated.id);
+      if (index === -1) return;
+      if (this.capturedItems[index].content !== updated.content) {
+        releaseThumbnails([this.capturedItems[index].content]);
+      }
+      this.capturedItems[index] = updated;
+      replaced = true;
+    });
+    if (!replaced) return;
+    this.renderItems();
+    this.updateUI();
   }
 
   private updateUI() {
     const hasItems = this.capturedItems.length > 0;
-    this.savePdfBtn.disabled = !hasItems;
+    this.savePdfBtn.disabled = this.getTaggedItems().length === 0;
+    // Backups cover whole collections, so only the Markdown exports follow the tag filter
+    this.exportMenu.querySelectorAll<HTMLButtonElement>('.export-option').forEach((option) => {
+      const format = option.dataset.format;
+      if (format === 'json-all') return;
+      option.disabled = format === 'json-collection' ? !hasItems : this.savePdfBtn.disabled;
+    });
     this.clearAllBtn.disabled = !hasItems;
+    this.checkLinksBtn.disabled = !hasItems;
+    this.syncActiveCollectionCount();
+    this.updateLinkCheckBar();
 
     const count = this.capturedItems.length;
     if (count === 0) {
@@ -147,6 +588,28 @@ class SidebarController {
     }
   }
 
+  /**
+   * Shows how many items need attention after a link check, with the matching bulk actions
+   */
+  private updateLinkCheckBar() {
+    const count = (status: string) =>
+      this.capturedItems.filter((item) => item.linkCheck?.status === status).length;
+    const redirected = count('redirected');
+    const broken = count('broken');
+    const unreachable = count('unreachable');
+
+    this.linkCheckBar.hidden = redirected === 0 && broken === 0 && unreachable === 0;
+    this.linkCheckSummary.textContent = [
+      redirected ? `${redirected} redirected` : '',
+      broken ? `${broken} broken` : '',
+      unreachable ? `${unreachable} unreachable` : '',
+    ]
+      .filter(Boolean)
+      .join(' · ');
+    this.updateRedirectsBtn.hidden = redirected === 0;
+    this.deleteBrokenBtn.hidden = broken === 0;
+  }
+
   private updateToggleButton() {
     this.toggleEnabledBtn.textContent = this.isExtensionEnabled ? 'Enabled' : 'Disabled';
     this.toggleEnabledBtn.className = `toggle-btn ${this.isExtensionEnabled ? 'enabled' : 'disabled'}`;
@@ -169,68 +632,503 @@ class SidebarController {
     }
   }
 
+  private async handleCaptureFullPage() {
+    const tabs = await browser.tabs.query({ active: true, currentWindow: true });
+    const tabId = tabs[0]?.id;
+    if (!tabId) return;
+
+    this.capturePageBtn.disabled = true;
+    try {
+      const response = (await browser.tabs.sendMessage(tabId, { type: 'CAPTURE_FULL_PAGE' })) as
+        | { success: boolean; cancelled?: boolean }
+        | undefined;
+      if (!response?.success && !response?.cancelled)
+        alert('Failed to capture the page. Please try again.');
+    } catch (e) {
+      // No content script runs on browser pages such as about: or the add-ons store
+      console.error('Full-page capture failed:', e);
+      alert('This page cannot be captured.');
+    } finally {
+      this.capturePageBtn.disabled = false;
+    }
+  }
+
+  private async handleStartElementPicker() {
+    const tabs = await browser.tabs.query({ active: true, currentWindow: true });
+    const tabId = tabs[0]?.id;
+    if (!tabId) return;
+
+    try {
+      await browser.tabs.sendMessage(tabId, { type: 'START_ELEMENT_PICKER' });
+    } catch (e) {
+      console.error('Element picker failed:', e);
+      alert('This page cannot be captured.');
+    }
+  }
+
+  private async handleStartGalleryPicker() {
+    const tabs = await browser.tabs.query({ active: true, currentWindow: true });
+    const tabId = tabs[0]?.id;
+    if (!tabId) return;
+
+    try {
+      await browser.tabs.sendMessage(tabId, { type: 'START_GALLERY_PICKER' });
+    } catch (e) {
+      console.error('Gallery picker failed:', e);
+      alert('This page cannot be captured.');
+    }
+  }
+
+  /**
+   * Scrolls to an item and flashes it, clearing the search and tag filters first if they hide
+   * it. An item in another collection is only shown if the user agrees to switch to it, since
+   * new captures go to the collection shown.
+   */
+  private async showItem(id: string, collectionId: string) {
+    if (!this.isActiveCollection(collectionId)) {
+      const name = this.collectionsState.collections.find((c) => c.id === collectionId)?.name;
+      if (!name) return;
+      if (!confirm(`This item is in "${name}". Switch to it? New captures will go there too.`)) {
+        return;
+      }
+      await this.handleSwitchCollection(collectionId);
+    }
+    if (!this.capturedItems.some((item) => item.id === id)) return;
+
+    if (!this.getVisibleItems().some((item) => item.id === id)) {
+      this.searchInput.value = '';
+      this.searchTerms = [];
+      this.activeTags.clear();
+      this.renderItems();
+      this.updateUI();
+    }
+
+    const element = this.itemsContainer.querySelector<HTMLElement>(
+      `[data-item-id="${CSS.escape(id)}"]`
+    );
+    if (!element) return;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    element.classList.remove('item-flash');
+    // Restart the animation when the same item is shown twice in a row
+    void element.offsetWidth;
+    element.classList.add('item-flash');
+  }
+
+  private async handleSwitchCollection(id: string) {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'SET_ACTIVE_COLLECTION',
+        data: { id },
+      })) as { success: boolean; data: CollectionsState };
+      if (response.success) {
+        this.collectionsState = response.data;
+        this.renderCollections();
+        await this.loadItems();
+      }
+    } catch (e) {
+      console.error('Switch collection failed:', e);
+    }
+  }
+
+  private async handleCreateCollection() {
+    const name = prompt('Name for the new collection:');
+    if (!name?.trim()) return;
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'CREATE_COLLECTION',
+        data: { name },
+      })) as { success: boolean; data: CollectionsState };
+      if (response.success) {
+        this.collectionsState = response.data;
+        this.renderCollections();
+        await this.loadItems();
+      }
+    } catch (e) {
+      console.error('Create collection failed:', e);
+    }
+  }
+
+  private async handleRenameCollection() {
+    const id = this.collectionsState.activeCollectionId;
+    const name = prompt('Rename collection:', this.getActiveCollectionName());
+    if (!name?.trim()) return;
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'RENAME_COLLECTION',
+        data: { id, name },
+      })) as { success: boolean; data: CollectionsState };
+      if (response.success) {
+        this.collectionsState = response.data;
+        this.renderCollections();
+      }
+    } catch (e) {
+      console.error('Rename collection failed:', e);
+    }
+  }
+
+  private async handleDeleteCollection() {
+    const name = this.getActiveCollectionName();
+    if (!confirm(`Delete the collection "${name}"? Its items move to the trash.`)) return;
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'DELETE_COLLECTION',
+        data: { id: this.collectionsState.activeCollectionId },
+      })) as { success: boolean; data: CollectionsState };
+      if (response.success) {
+        this.collectionsState = response.data;
+        this.renderCollections();
+        await this.loadItems();
+      }
+    } catch (e) {
+      console.error('Delete collection failed:', e);
+    }
+  }
+
   private async handleDeleteItem(id: string) {
     try {
       const response = (await browser.runtime.sendMessage({
         type: 'DELETE_ITEM',
-        data: { id },
-      })) as { success: boolean };
+        data: { id, collectionId: this.collectionsState.activeCollectionId },
+      })) as { success: boolean; data: { batchId: string } };
       if (response.success) {
-        this.capturedItems = this.capturedItems.filter((i) => i.id !== id);
-        this.renderItems();
-        this.updateUI();
+        this.removeLocalItems((i) => i.id === id);
+        showUndoToast('Item moved to the trash', () => {
+          void this.handleRestoreTrash(response.data.batchId);
+        });
       }
     } catch (e) {
       console.error('Delete failed:', e);
     }
   }
 
+  private async handleUpdateItem(id: string, changes: ItemChanges) {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'UPDATE_ITEM',
+        data: { id, changes, collectionId: this.collectionsState.activeCollectionId },
+      })) as { success: boolean; data: CapturedItem };
+      if (response.success) {
+        this.replaceLocalItems([response.data]);
+      }
+    } catch (e) {
+      console.error('Update failed:', e);
+    }
+  }
+
+  private async handleCheckLinks() {
+    this.checkLinksBtn.disabled = true;
+    this.checkLinksBtn.textContent = '…';
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'CHECK_LINKS',
+        data: { collectionId: this.collectionsState.activeCollectionId },
+      })) as {
+        success: boolean;
+        data: Record<LinkCheck['status'], number>;
+        error?: string;
+      };
+      if (!response.success) {
+        alert(`Link check failed: ${response.error}`);
+      } else if (
+        response.data.redirected === 0 &&
+        response.data.broken === 0 &&
+        response.data.unreachable === 0
+      ) {
+        // Otherwise the link check bar reports the results
+        const { live } = response.data;
+        alert(
+          live ? `All ${live} link${live !== 1 ? 's are' : ' is'} live.` : 'No links to check.'
+        );
+      }
+    } catch (e) {
+      console.error('Link check failed:', e);
+    } finally {
+      this.checkLinksBtn.textContent = '⛓';
+      this.checkLinksBtn.disabled = this.capturedItems.length === 0;
+    }
+  }
+
+  private async handleUpdateRedirectedLinks() {
+    try {
+      await browser.runtime.sendMessage({
+        type: 'UPDATE_REDIRECTED_LINKS',
+        data: { collectionId: this.collectionsState.activeCollectionId },
+      });
+      // The updated items arrive through ITEMS_UPDATED
+    } catch (e) {
+      console.error('Updating redirected links failed:', e);
+    }
+  }
+
+  private async handleDeleteBrokenLinks() {
+    const broken = this.capturedItems.filter((item) => item.linkCheck?.status === 'broken');
+    if (
+      !confirm(
+        `Move ${broken.length} item${broken.length !== 1 ? 's' : ''} with broken links to the trash?`
+      )
+    ) {
+      return;
+    }
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'DELETE_BROKEN_LINKS',
+        data: { collectionId: this.collectionsState.activeCollectionId },
+      })) as { success: boolean; data: { batchId: string; count: number } };
+      if (response.success) {
+        this.removeLocalItems((i) => i.linkCheck?.status === 'broken');
+        const { batchId, count } = response.data;
+        showUndoToast(`Deleted ${count} broken link${count !== 1 ? 's' : ''}`, () => {
+          void this.handleRestoreTrash(batchId);
+        });
+      }
+    } catch (e) {
+      console.error('Deleting broken links failed:', e);
+    }
+  }
+
+  private async handleAnnotateItem(id: string) {
+    const item = this.capturedItems.find((i) => i.id === id);
+    if (!item) return;
+
+    try {
+      const dataUrl = await resolveContentToDataUrl(item.content);
+      if (!dataUrl) {
+        alert('The image of this item is missing.');
+        return;
+      }
+      const annotated = await openAnnotationEditor(dataUrl);
+      if (!annotated || annotated === dataUrl) return;
+
+      const response = (await browser.runtime.sendMessage({
+        type: 'UPDATE_ITEM_IMAGE',
+        data: { id, dataUrl: annotated, collectionId: this.collectionsState.activeCollectionId },
+      })) as { success: boolean; data: CapturedItem; error?: string };
+      if (response.success) {
+        this.replaceLocalItems([response.data]);
+      } else {
+        alert(`Failed to save the annotated image: ${response.error}`);
+      }
+    } catch (e) {
+      console.error('Annotate failed:', e);
+    }
+  }
+
+  private async handleUpdateSettings(changes: Partial<Settings>) {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'UPDATE_SETTINGS',
+        data: changes,
+      })) as { success: boolean; data: Settings };
+      if (response.success) {
+        this.renderSettings(response.data);
+      }
+    } catch (e) {
+      console.error('Update settings failed:', e);
+    }
+  }
+
+  private async handleExport(format: string) {
+    const name = this.getActiveCollectionName();
+    try {
+      switch (format) {
+        case 'embedded':
+        case 'zip':
+          await exportMarkdown(this.capturedItems, name, { format, tags: [...this.activeTags] });
+          break;
+        case 'json-collection':
+          await this.downloadBackup(this.collectionsState.activeCollectionId, name);
+          break;
+        case 'json-all':
+          await this.downloadBackup(
+            undefined,
+            `notes-collector-backup-${new Date().toISOString().slice(0, 10)}`
+          );
+          break;
+      }
+    } catch (e) {
+      console.error('Export failed:', e);
+      alert('Export failed. Please try again.');
+    }
+  }
+
+  private async downloadBackup(collectionId: string | undefined, filename: string | undefined) {
+    const response = (await browser.runtime.sendMessage({
+      type: 'EXPORT_DATA',
+      data: { collectionId },
+    })) as { success: boolean; data: BackupFile; error?: string };
+    if (!response.success) throw new Error(response.error);
+
+    const blob = new Blob([JSON.stringify(response.data, null, 2)], { type: 'application/json' });
+    await downloadBlob(blob, getExportFilename(filename, 'json'));
+  }
+
+  private async handleImport(file: File, mode: ImportMode) {
+    if (
+      mode === 'replace' &&
+      !confirm(
+        'Replace all collections, items and site settings with the contents of the backup? The current items move to the trash.'
+      )
+    ) {
+      return;
+    }
+
+    let backup: unknown;
+    try {
+      backup = JSON.parse(await file.text());
+    } catch {
+      alert('Import failed: the file is not valid JSON.');
+      return;
+    }
+
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'IMPORT_DATA',
+        data: { backup, mode },
+      })) as { success: boolean; data: ImportResult; error?: string };
+      if (!response.success) {
+        alert(response.error || 'Import failed. Please try again.');
+        return;
+      }
+
+      const { items, skipped, renamed } = response.data;
+      const details = [
+        skipped > 0 ? `${skipped} already present` : '',
+        renamed > 0 ? `${renamed} given new ids` : '',
+      ].filter(Boolean);
+      alert(
+        `Imported ${items} item${items !== 1 ? 's' : ''}${details.length ? ` (${details.join(', ')})` : ''}.`
+      );
+    } catch (e) {
+      console.error('Import failed:', e);
+      alert('Import failed. Please try again.');
+    }
+  }
+
   private async handleClearAll() {
-    if (!confirm('Are you sure you want to clear all captured items?')) return;
+    const name = this.getActiveCollectionName();
+    if (!confirm(`Move all captured items in "${name}" to the trash?`)) return;
     try {
-      const response = (await browser.runtime.sendMessage({ type: 'CLEAR_ALL' })) as {
+      const response = (await browser.runtime.sendMessage({
+        type: 'CLEAR_ALL',
+        data: { collectionId: this.collectionsState.activeCollectionId },
+      })) as {
         success: boolean;
+        data: { batchId: string; count: number };
       };
       if (response.success) {
-        this.capturedItems = [];
-        this.renderItems();
-        this.updateUI();
+        this.removeLocalItems(() => true);
+        const { batchId, count } = response.data;
+        showUndoToast(`Cleared ${count} item${count !== 1 ? 's' : ''}`, () => {
+          void this.handleRestoreTrash(batchId);
+        });
       }
     } catch (e) {
       console.error('Clear failed:', e);
     }
   }
 
-  private async handleReorder(newItems: CapturedItem[]) {
+  private async handleReorder(newItems: CapturedItem[], undoable = true) {
+    const previousIds = this.capturedItems.map((i) => i.id);
     this.capturedItems = newItems;
     this.renderItems();
     try {
-      await browser.runtime.sendMessage({ type: 'REORDER_ITEMS', data: { items: newItems } });
+      await browser.runtime.sendMessage({
+        type: 'REORDER_ITEMS',
+        data: { items: newItems, collectionId: this.collectionsState.activeCollectionId },
+      });
+      if (undoable) {
+        showUndoToast('Items reordered', () => this.undoReorder(previousIds));
+      }
     } catch (e) {
       console.error('Reorder sync failed:', e);
     }
   }
 
+  /**
+   * Puts items back in their previous order. Items captured since keep their place at the end.
+   */
+  private undoReorder(previousIds: string[]) {
+    const position = new Map(previousIds.map((id, index) => [id, index]));
+    const restored = [...this.capturedItems].sort(
+      (a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity)
+    );
+    void this.handleReorder(restored, false);
+  }
+
+  private async loadTrash() {
+    try {
+      const response = (await browser.runtime.sendMessage({ type: 'GET_TRASH' })) as {
+        success: boolean;
+        data: TrashedItem[];
+      };
+      if (response.success) {
+        renderTrash(this.trashList, response.data, this.collectionsState.collections, {
+          onRestore: (batchId) => void this.handleRestoreTrash(batchId),
+          onDelete: (batchId) => void this.handleEmptyTrash(batchId),
+        });
+        this.emptyTrashBtn.disabled = response.data.length === 0;
+      }
+    } catch (e) {
+      console.error('Failed to load trash:', e);
+    }
+  }
+
+  private async handleRestoreTrash(batchId: string) {
+    try {
+      const response = (await browser.runtime.sendMessage({
+        type: 'RESTORE_TRASH',
+        data: { batchId },
+      })) as { success: boolean; error?: string };
+      if (!response.success) {
+        alert(response.error || 'Restore failed. Please try again.');
+      }
+      // The restored items arrive through ITEMS_RESTORED
+    } catch (e) {
+      console.error('Restore failed:', e);
+    }
+  }
+
+  private async handleEmptyTrash(batchId?: string) {
+    try {
+      await browser.runtime.sendMessage({ type: 'EMPTY_TRASH', data: { batchId } });
+      // The trash panel refreshes through TRASH_CHANGED
+    } catch (e) {
+      console.error('Empty trash failed:', e);
+    }
+  }
+
   private handleBackgroundMessage(
-    message: Message | { type: string; data?: unknown; enabled?: boolean }
+    message: Message | { type: string; data?: unknown; enabled?: boolean; collectionId?: string }
   ) {
+    const collectionId = 'collectionId' in message ? message.collectionId : undefined;
     switch (message.type) {
       case 'ITEM_ADDED':
+        if (!this.isActiveCollection(collectionId)) break;
         this.capturedItems.push(message.data as CapturedItem);
         this.renderItems();
         this.updateUI();
         break;
       case 'ITEM_DELETED':
-        this.capturedItems = this.capturedItems.filter(
-          (i) => i.id !== (message.data as { id: string }).id
-        );
-        this.renderItems();
-        this.updateUI();
+        if (!this.isActiveCollection(collectionId)) break;
+        this.removeLocalItems((i) => i.id === (message.data as { id: string }).id);
+        break;
+      case 'ITEM_UPDATED':
+        if (!this.isActiveCollection(collectionId)) break;
+        this.replaceLocalItems([message.data as CapturedItem]);
         break;
+      case 'ITEMS_UPDATED':
+        if (!this.isActiveCollection(collectionId)) break;
+        this.replaceLocalItems(message.data as CapturedItem[]);
+        break;
+      case 'ITEMS_DELETED': {
+        if (!this.isActiveCollection(collectionId)) break;
+        const ids = new Set((message.data as { ids: string[] }).ids);
+        this.removeLocalItems((i) => ids.has(i.id));
+        break;
+      }
       case 'ITEMS_CLEARED':
-        this.capturedItems = [];
-        this.renderItems();
-        this.updateUI();
+        if (!this.isActiveCollection(collectionId)) break;
+        this.removeLocalItems(() => true);
         break;
       case 'SITE_ENABLED_CHANGED': {
         const msg = message as { enabled?: boolean; data?: { enabled: boolean } };
@@ -238,9 +1136,46 @@ class SidebarController {
         this.updateToggleButton();
         break;
       }
+      case 'COLLECTIONS_CHANGED': {
+        const previousActiveId = this.collectionsState.activeCollectionId;
+        this.collectionsState = message.data as CollectionsState;
+        this.renderCollections();
+        if (this.collectionsState.activeCollectionId !== previousActiveId) {
+          void this.loadItems();
+        }
+        break;
+      }
+      case 'ITEMS_RESTORED': {
+        const { collectionIds } = message.data as { collectionIds: string[] };
+        void this.loadCollections();
+        if (collectionIds.includes(this.collectionsState.activeCollectionId)) {
+          void this.loadItems();
+        }
+        break;
+      }
+      case 'TRASH_CHANGED':
+        if (!this.trashPanel.hidden) void this.loadTrash();
+        break;
+      case 'DATA_IMPORTED':
+        this.collectionsState = message.data as CollectionsState;
+        this.renderCollections();
+        void this.loadItems();
+        break;
+      case 'SETTINGS_CHANGED':
+        this.renderSettings(message.data as Settings);
+        break;
       case 'STORAGE_WARNING':
         alert((message.data as { message: string }).message);
         break;
+      case 'SHOW_ITEM': {
+        // Sent by a content script when a highlighted passage is clicked
+        const { id, collectionId: itemCollectionId } = message.data as {
+          id: string;
+          collectionId: string;
+        };
+        void this.showItem(id, itemCollectionId);
+        break;
+      }
     }
   }
 }
@@ -0,0 +1,73 @@
+/**
+ * Lazy loading of item thumbnails from the blob store
+ */
+import { getBlob, getBlobId, isBlobRef } from '../utils/blobStore';
+
+// Object URLs survive re-renders so thumbnails are read from IndexedDB only once
+const objectUrls = new Map<string, string>();
+let observer: IntersectionObserver | null = null;
+
+async function loadThumbnail(img: HTMLImageElement) {
+  const ref = img.dataset.blobRef;
+  if (!ref) return;
+
+  let url = objectUrls.get(ref);
+  if (!url) {
+    try {
+      const blob = await getBlob(getBlobId(ref));
+      if (!blob) {
+        img.classList.add('missing');
+        return;
+      }
+      url = URL.createObjectURL(blob);
+      objectUrls.set(ref, url);
+    } catch (error) {
+      console.error('Failed to load thumbnail:', error);
+      return;
+    }
+  }
+  img.src = url;
+}
+
+function getObserver(): IntersectionObserver {
+  if (!observer) {
+    observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (!entry.isIntersecting) return;
+          observer?.unobserve(entry.target);
+          void loadThumbnail(entry.target as HTMLImageElement);
+        });
+      },
+      { rootMargin: '200px' }
+    );
+  }
+  return observer;
+}
+
+/**
+ * Loads the image's blob once it scrolls near the viewport
+ * @param img An image element with a `data-blob-ref` attribute
+ */
+export function observeThumbnail(img: HTMLImageElement) {
+  const cached = img.dataset.blobRef && objectUrls.get(img.dataset.blobRef);
+  if (cached) {
+    img.src = cached;
+    return;
+  }
+  getObserver().observe(img);
+}
+
+/**
+ * Frees the object URLs held for items that are no longer shown
+ * @param contents The content values of the removed items
+ */
+export function releaseThumbnails(contents: string[]) {
+  contents.filter(isBlobRef).forEach((ref) => {
+    const url = objectUrls.get(ref);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(ref);
+    }
+  });
+}
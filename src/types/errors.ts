@@ -62,6 +62,15 @@ export class PdfGenerationError extends NotesCollectorError {
   }
 }
 
+/**
+ * Thrown when a backup file cannot be imported
+ */
+export class ImportError extends NotesCollectorError {
+  constructor(message: string) {
+    super(message, `Import failed: ${message}`);
+  }
+}
+
 /**
  * Thrown when item limit is reached
  */
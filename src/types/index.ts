@@ -2,26 +2,96 @@
 
 export interface CapturedItem {
   id: string;
-  type: 'link' | 'image' | 'text' | 'screenshot';
+  type: 'link' | 'image' | 'text' | 'screenshot' | 'code' | 'table';
   order: number;
   timestamp: number;
-  content: string; // URL, data URL, or text content
-  metadata: LinkMetadata | ImageMetadata | TextMetadata | ScreenshotMetadata;
+  content: string; // URL, blob store reference, text content, or CSV for tables
+  metadata:
+    | LinkMetadata
+    | ImageMetadata
+    | TextMetadata
+    | ScreenshotMetadata
+    | CodeMetadata
+    | TableMetadata;
+  title?: string; // User-provided title, shown instead of the captured text or alt
+  note?: string; // User annotation in Markdown
+  tags?: string[];
+  page?: PageMetadata; // The page the item was captured from
+  linkCheck?: LinkCheck; // Result of the last link check
 }
 
+// Outcome of checking the URL of an item: a link's target, else the page it was captured from
+export interface LinkCheck {
+  // Unreachable: the request failed outright, e.g. offline or timed out, so the page may be fine
+  status: 'live' | 'redirected' | 'broken' | 'unreachable';
+  checkedAt: number;
+  finalUrl?: string; // Where a redirected URL ends up
+  statusCode?: number; // HTTP status of a broken URL
+}
+
+// Fields of a captured item the user can edit from the sidebar
+export type ItemChanges = Partial<Pick<CapturedItem, 'title' | 'note' | 'tags'>>;
+
 export interface LinkMetadata {
   text: string;
   href: string;
+  preview?: LinkPreview; // Added once the target page has been fetched
+}
+
+// Card details read from the head of a link's target page
+export interface LinkPreview {
+  title?: string;
+  description?: string;
+  image?: string; // Absolute URL of the page's preview image
+  imageRef?: string; // Blob store reference to a copy of the image, shown instead of the URL
+  siteName?: string;
 }
 
 export interface ImageMetadata {
   alt: string;
   originalSrc: string;
+  video?: VideoFrame; // Set when the image is a frame grabbed from a video
+  displayedSize?: ImageSize; // Resolution of the source the page displayed
+  originalSize?: ImageSize; // Resolution of the captured source, the largest one found
+  format?: 'svg' | 'canvas'; // Set when the image was rasterized from an inline graphic
+  svg?: string; // Markup of an inline SVG, kept alongside its rasterized image
+}
+
+export interface ImageSize {
+  width: number; // In pixels
+  height: number;
+}
+
+// The moment of a video a frame was grabbed at
+export interface VideoFrame {
+  url: string; // Link that opens the video at the frame, e.g. with ?t=123
+  time: number; // Position in the video, in seconds
 }
 
 export interface TextMetadata {
   text: string;
   sourceUrl: string; // URL of the page where text was captured
+  markdown?: string; // Formatted version of the selection, when it had any formatting
+  anchor?: TextAnchor; // Where the passage is on the page, for highlighting it on later visits
+}
+
+// Location of a captured passage that survives reloads and small page changes
+export interface TextAnchor {
+  exact: string; // The passage as it appears in the page's text content
+  prefix: string; // Text just before it, to tell repeated passages apart
+  suffix: string;
+  // Fallback for when the quote is not found, e.g. after whitespace changes
+  startPath?: string; // XPath of the text node the passage starts in
+  startOffset?: number;
+  endPath?: string;
+  endOffset?: number;
+}
+
+// A passage to highlight on a page, and the item it belongs to
+export interface PageHighlight {
+  itemId: string;
+  collectionId: string;
+  anchor: TextAnchor;
 }
 
 export interface ScreenshotMetadata {
@@ -33,9 +103,129 @@ export interface ScreenshotMetadata {
     x: number;
     y: number;
   };
+  selector?: string; // CSS selector of the element, when captured with the element picker
+}
+
+export interface CodeMetadata {
+  code: string; // Raw code, whitespace intact
+  language?: string; // Lowercase language name from the page's highlighter classes
+  sourceUrl: string;
+}
+
+export interface TableCell {
+  text: string;
+  header?: boolean; // A <th> cell
+  colSpan?: number; // Only set when greater than 1
+  rowSpan?: number;
+}
+
+export interface TableMetadata {
+  rows: TableCell[][]; // Cells as they appear in each row, spanned positions omitted
+  caption?: string;
+  sourceUrl: string;
+}
+
+// Details of the source page, read from its head when an item is captured
+export interface PageMetadata {
+  url: string;
+  title?: string; // OpenGraph or Twitter card title, else the document title
+  favicon?: string;
+  canonicalUrl?: string;
+  siteName?: string;
+  description?: string;
+  author?: string;
+  publishedAt?: string; // As written by the page, usually ISO 8601
+}
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: number;
+  items: CapturedItem[];
+  nextOrder: number;
+}
+
+// Lightweight view of a collection for the sidebar switcher
+export interface CollectionSummary {
+  id: string;
+  name: string;
+  itemCount: number;
+}
+
+export interface CollectionsState {
+  collections: CollectionSummary[];
+  activeCollectionId: string;
+}
+
+// A stored item that failed validation, kept aside instead of being dropped
+export interface QuarantinedItem {
+  item: unknown;
+  collectionId: string | null;
+  reason: string;
+  quarantinedAt: number;
+}
+
+// A deleted item, kept until it is restored or its retention period ends
+export interface TrashedItem {
+  item: CapturedItem;
+  collectionId: string; // Collection the item was deleted from
+  batchId: string; // Items deleted together (Clear All) share a batch and are restored together
+  deletedAt: number;
+}
+
+export interface Settings {
+  quickTagPrompt: boolean; // Ask for tags right after each capture
+  trashRetentionDays: number; // Deleted items are purged from the trash after this many days
+  annotateScreenshots: boolean; // Open the annotation editor before a screenshot is saved
+  imageMaxDimension: number; // Longer side of stored images, in pixels
+  imageFormat: 'original' | 'webp' | 'jpeg'; // Format stored images are converted to
+  imageQuality: number; // Quality of WebP and JPEG images, from 1 to 100
+  keepOriginalImages: boolean; // Store images exactly as captured, skipping the settings above
+}
+
+// Space an item takes: its entry in storage.local and its image in the blob store
+export interface ItemStorageUsage {
+  id: string;
+  dataBytes: number;
+  mediaBytes: number;
+}
+
+export interface StorageReport {
+  bytesInUse: number; // Used in storage.local, which the quota applies to
+  quotaBytes?: number;
+  items: ItemStorageUsage[]; // Items of the reported collection
 }
 
 export interface StorageData {
+  schemaVersion: number;
+  collections: Collection[];
+  activeCollectionId: string;
+  disabledDomains?: string[];
+  quarantine?: QuarantinedItem[];
+  trash: TrashedItem[];
+  settings: Settings;
+}
+
+// Versioned file written by the JSON export; media is inlined as data URLs
+export interface BackupFile {
+  format: 'notes-collector-backup';
+  version: number;
+  exportedAt: number;
+  data: StorageData;
+}
+
+// "merge" adds the backup to existing data, "replace" swaps existing data for the backup
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  collections: number; // Collections added or merged into
+  items: number; // Items added
+  skipped: number; // Items already present, left out
+  renamed: number; // Items given a new id because theirs was taken
+}
+
+// Pre-collections storage layout, kept for migrating existing installs
+export interface LegacyStorageData {
   items: CapturedItem[];
   nextOrder: number;
   disabledDomains?: string[];
@@ -43,9 +233,44 @@ export interface StorageData {
 
 // Message types for communication between scripts
 export type Message =
-  | { type: 'CAPTURE_LINK'; data: { href: string; text: string } }
-  | { type: 'CAPTURE_IMAGE'; data: { src: string; alt: string; dataUrl: string } }
-  | { type: 'CAPTURE_TEXT'; data: { text: string; sourceUrl: string } }
+  | { type: 'CAPTURE_LINK'; data: { href: string; text: string; page?: PageMetadata } }
+  | {
+      type: 'CAPTURE_IMAGE';
+      data: {
+        src: string;
+        alt: string;
+        dataUrl: string;
+        displayedSize?: ImageSize;
+        originalSize?: ImageSize;
+        video?: VideoFrame;
+        format?: ImageMetadata['format'];
+        svg?: string;
+        page?: PageMetadata;
+      };
+    }
+  | {
+      type: 'CAPTURE_TEXT';
+      data: {
+        text: string;
+        sourceUrl: string;
+        markdown?: string;
+        anchor?: TextAnchor;
+        page?: PageMetadata;
+      };
+    }
+  | {
+      type: 'CAPTURE_CODE';
+      data: { code: string; language?: string; sourceUrl: string; page?: PageMetadata };
+    }
+  | {
+      type: 'CAPTURE_TABLE';
+      data: {
+        rows: TableCell[][];
+        caption?: string;
+        sourceUrl: string;
+        page?: PageMetadata;
+      };
+    }
   | { type: 'FETCH_IMAGE'; data: { url: string } }
   | {
       type: 'REQUEST_SCREENSHOT';
@@ -60,15 +285,41 @@ export type Message =
         dataUrl: string;
         sourceUrl: string;
         dimensions: { width: number; height: number; x: number; y: number };
+        selector?: string;
+        page?: PageMetadata;
       };
     }
-  | { type: 'GET_ITEMS' }
-  | { type: 'DELETE_ITEM'; data: { id: string } }
-  | { type: 'REORDER_ITEMS'; data: { items: CapturedItem[] } }
-  | { type: 'CLEAR_ALL' }
+  | { type: 'GET_PAGE_HIGHLIGHTS'; data: { url: string } }
+  | { type: 'SHOW_ITEM'; data: { id: string; collectionId: string } }
+  | { type: 'GET_ITEMS'; data?: { collectionId?: string } }
+  | { type: 'DELETE_ITEM'; data: { id: string; collectionId?: string } }
+  | { type: 'UPDATE_ITEM'; data: { id: string; changes: ItemChanges; collectionId?: string } }
+  | { type: 'UPDATE_ITEM_IMAGE'; data: { id: string; dataUrl: string; collectionId?: string } }
+  | { type: 'CHECK_LINKS'; data?: { collectionId?: string } }
+  | { type: 'UPDATE_REDIRECTED_LINKS'; data?: { collectionId?: string } }
+  | { type: 'DELETE_BROKEN_LINKS'; data?: { collectionId?: string } }
+  | { type: 'REORDER_ITEMS'; data: { items: CapturedItem[]; collectionId?: string } }
+  | { type: 'CLEAR_ALL'; data?: { collectionId?: string } }
+  | { type: 'GET_SETTINGS' }
+  | { type: 'UPDATE_SETTINGS'; data: Partial<Settings> }
+  | { type: 'GET_STORAGE_REPORT'; data?: { collectionId?: string } }
+  | { type: 'GET_COLLECTIONS' }
+  | { type: 'CREATE_COLLECTION'; data: { name: string } }
+  | { type: 'RENAME_COLLECTION'; data: { id: string; name: string } }
+  | { type: 'DELETE_COLLECTION'; data: { id: string } }
+  | { type: 'SET_ACTIVE_COLLECTION'; data: { id: string } }
+  | { type: 'GET_TRASH' }
+  | { type: 'RESTORE_TRASH'; data: { batchId: string } }
+  | { type: 'EMPTY_TRASH'; data?: { batchId?: string } }
+  | { type: 'EXPORT_DATA'; data?: { collectionId?: string } }
+  | { type: 'IMPORT_DATA'; data: { backup: unknown; mode: ImportMode } }
   | { type: 'CHECK_SITE_ENABLED'; data: { tabId: number } }
   | { type: 'TOGGLE_SITE_ENABLED'; data: { tabId: number } }
-  | { type: 'SITE_ENABLED_CHANGED'; enabled: boolean; data?: { enabled: boolean } };
+  | { type: 'SITE_ENABLED_CHANGED'; enabled: boolean; data?: { enabled: boolean } }
+  // Sent to the content script of a tab
+  | { type: 'CAPTURE_FULL_PAGE' }
+  | { type: 'START_ELEMENT_PICKER' }
+  | { type: 'START_GALLERY_PICKER' };
 
 export interface MessageResponse<T = unknown> {
   success: boolean;
@@ -0,0 +1,469 @@
+/**
+ * Annotation editor for screenshots: arrows, boxes, freehand marks, text labels and redaction
+ *
+ * Used by the content script before a capture is saved and by the sidebar for stored items,
+ * so it is styled inline and does not depend on either stylesheet. Annotations are burned
+ * into the saved pixels; nothing under a blurred or blacked-out region survives the export.
+ */
+
+type Tool = 'arrow' | 'box' | 'pen' | 'text' | 'blur' | 'redact';
+
+interface Point {
+  x: number; // Image pixels
+  y: number;
+}
+
+type Annotation =
+  | { tool: 'arrow' | 'box' | 'blur' | 'redact'; color: string; from: Point; to: Point }
+  | { tool: 'pen'; color: string; points: Point[] }
+  | { tool: 'text'; color: string; at: Point; text: string };
+
+const TOOLS: { tool: Tool; label: string; title: string }[] = [
+  { tool: 'arrow', label: '↗', title: 'Arrow' },
+  { tool: 'box', label: '▭', title: 'Box' },
+  { tool: 'pen', label: '✎', title: 'Freehand' },
+  { tool: 'text', label: 'T', title: 'Text label' },
+  { tool: 'blur', label: '▦', title: 'Blur a region' },
+  { tool: 'redact', label: '■', title: 'Black out a region' },
+];
+
+const COLORS = ['#e53935', '#fdd835', '#43a047', '#1e88e5', '#000000', '#ffffff'];
+
+const BUTTON_STYLE = `
+  min-width: 30px;
+  height: 28px;
+  padding: 0 8px;
+  border: 1px solid #555;
+  border-radius: 3px;
+  background: #333;
+  color: white;
+  font: 14px system-ui, -apple-system, sans-serif;
+  cursor: pointer;
+`;
+
+let isOpen = false;
+
+function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to load image for annotation'));
+    img.src = dataUrl;
+  });
+}
+
+function createButton(label: string, title: string): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.type = 'button';
+  button.textContent = label;
+  button.title = title;
+  button.style.cssText = BUTTON_STYLE;
+  return button;
+}
+
+/**
+ * Normalizes two corners into a rectangle clipped to the canvas
+ */
+function toRect(from: Point, to: Point, canvas: HTMLCanvasElement) {
+  const x = Math.max(0, Math.min(from.x, to.x));
+  const y = Math.max(0, Math.min(from.y, to.y));
+  return {
+    x,
+    y,
+    width: Math.min(canvas.width, Math.max(from.x, to.x)) - x,
+    height: Math.min(canvas.height, Math.max(from.y, to.y)) - y,
+  };
+}
+
+/**
+ * Replaces a region with coarse blocks. Pixelation is used rather than a soft blur, which
+ * can leave small text readable.
+ */
+function pixelate(ctx: CanvasRenderingContext2D, from: Point, to: Point, blockSize: number) {
+  const rect = toRect(from, to, ctx.canvas);
+  if (rect.width < 1 || rect.height < 1) return;
+
+  const small = document.createElement('canvas');
+  small.width = Math.max(1, Math.ceil(rect.width / blockSize));
+  small.height = Math.max(1, Math.ceil(rect.height / blockSize));
+  const smallCtx = small.getContext('2d');
+  if (!smallCtx) return;
+  smallCtx.drawImage(
+    ctx.canvas,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height,
+    0,
+    0,
+    small.width,
+    small.height
+  );
+
+  ctx.save();
+  ctx.imageSmoothingEnabled = false;
+  ctx.drawImage(small, 0, 0, small.width, small.height, rect.x, rect.y, rect.width, rect.height);
+  ctx.restore();
+}
+
+function drawArrow(ctx: CanvasRenderingContext2D, from: Point, to: Point, lineWidth: number) {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const head = lineWidth * 4;
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(to.x, to.y);
+  ctx.lineTo(
+    to.x - head * Math.cos(angle - Math.PI / 6),
+    to.y - head * Math.sin(angle - Math.PI / 6)
+  );
+  ctx.lineTo(
+    to.x - head * Math.cos(angle + Math.PI / 6),
+    to.y - head * Math.sin(angle + Math.PI / 6)
+  );
+  ctx.closePath();
+  ctx.fill();
+}
+
+/**
+ * Draws one annotation onto the canvas
+ * @param preview Shades blur and black-out regions instead, for the shape being dragged
+ */
+function drawAnnotation(
+  ctx: CanvasRenderingContext2D,
+  annotation: Annotation,
+  lineWidth: number,
+  preview = false
+) {
+  ctx.save();
+  ctx.strokeStyle = annotation.color;
+  ctx.fillStyle = annotation.color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  switch (annotation.tool) {
+    case 'arrow':
+      drawArrow(ctx, annotation.from, annotation.to, lineWidth);
+      break;
+    case 'box': {
+      const rect = toRect(annotation.from, annotation.to, ctx.canvas);
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      break;
+    }
+    case 'pen':
+      ctx.beginPath();
+      annotation.points.forEach((point, i) => {
+        if (i === 0) {
+          ctx.moveTo(point.x, point.y);
+        } else {
+          ctx.lineTo(point.x, point.y);
+        }
+      });
+      ctx.stroke();
+      break;
+    case 'text':
+      ctx.font = `bold ${lineWidth * 6}px system-ui, -apple-system, sans-serif`;
+      ctx.textBaseline = 'top';
+      // Outline keeps labels readable on any background
+      ctx.strokeStyle = annotation.color === '#000000' ? '#ffffff' : '#000000';
+      ctx.lineWidth = lineWidth;
+      ctx.strokeText(annotation.text, annotation.at.x, annotation.at.y);
+      ctx.fillText(annotation.text, annotation.at.x, annotation.at.y);
+      break;
+    case 'blur':
+    case 'redact': {
+      const rect = toRect(annotation.from, annotation.to, ctx.canvas);
+      if (preview) {
+        ctx.fillStyle = 'rgb(0, 0, 0, 0.4)';
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      } else if (annotation.tool === 'redact') {
+        ctx.fillStyle = '#000000';
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      } else {
+        pixelate(ctx, annotation.from, annotation.to, lineWidth * 5);
+      }
+      break;
+    }
+  }
+  ctx.restore();
+}
+
+/**
+ * Opens the annotation editor over the current page
+ * @param dataUrl The image to annotate
+ * @returns The annotated image as a PNG data URL, the original if nothing was drawn, or null
+ * if the editor was cancelled
+ */
+export async function openAnnotationEditor(dataUrl: string): Promise<string | null> {
+  if (isOpen) return null;
+  isOpen = true;
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(dataUrl);
+  } catch (error) {
+    isOpen = false;
+    throw error;
+  }
+
+  return new Promise((resolve) => {
+    const annotations: Annotation[] = [];
+    let tool: Tool = 'arrow';
+    let color = COLORS[0];
+    let draft: Annotation | null = null;
+    // Scaled with the width only, since scrolling captures can be very tall
+    const lineWidth = Math.max(2, Math.round(image.width / 400));
+
+    const root = document.createElement('div');
+    root.className = 'notes-collector-annotator';
+    root.tabIndex = -1;
+    root.style.cssText = `
+      position: fixed;
+      inset: 0;
+      display: flex;
+      flex-direction: column;
+      background: rgb(0, 0, 0, 0.85);
+      z-index: 2147483647;
+      font: 13px system-ui, -apple-system, sans-serif;
+      color: white;
+      outline: none;
+    `;
+
+    const toolbar = document.createElement('div');
+    toolbar.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      align-items: center;
+      padding: 8px;
+      background: #222;
+    `;
+
+    const toolButtons = TOOLS.map(({ tool: value, label, title }) => {
+      const button = createButton(label, title);
+      button.addEventListener('click', () => {
+        tool = value;
+        updateToolbar();
+      });
+      return { value, button };
+    });
+
+    const colorButtons = COLORS.map((value) => {
+      const button = createButton('', value);
+      button.style.background = value;
+      button.style.minWidth = '22px';
+      button.style.width = '22px';
+      button.addEventListener('click', () => {
+        color = value;
+        updateToolbar();
+      });
+      return { value, button };
+    });
+
+    const spacer = document.createElement('div');
+    spacer.style.flex = '1';
+    const undoBtn = createButton('↶', 'Undo (Ctrl+Z)');
+    const cancelBtn = createButton('Cancel', 'Discard (Esc)');
+    const saveBtn = createButton('Save', 'Save the annotated image');
+    saveBtn.style.background = '#4a90e2';
+    saveBtn.style.borderColor = '#4a90e2';
+
+    toolbar.append(
+      ...toolButtons.map((t) => t.button),
+      ...colorButtons.map((c) => c.button),
+      spacer,
+      undoBtn,
+      cancelBtn,
+      saveBtn
+    );
+
+    // The canvas keeps the image's full resolution and is scaled down to fit by CSS
+    const stage = document.createElement('div');
+    stage.style.cssText = `
+      flex: 1;
+      overflow: auto;
+      padding: 12px;
+      text-align: center;
+    `;
+    const frame = document.createElement('div');
+    frame.style.cssText = 'position: relative; display: inline-block;';
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width;
+    canvas.height = image.height;
+    canvas.style.cssText = `
+      display: block;
+      max-width: 100%;
+      cursor: crosshair;
+      touch-action: none;
+      box-shadow: 0 2px 12px rgb(0, 0, 0, 0.5);
+    `;
+    frame.appendChild(canvas);
+    stage.appendChild(frame);
+    root.append(toolbar, stage);
+
+    const ctx = canvas.getContext('2d')!;
+    // Everything committed so far, so dragging only has to draw the shape in progress
+    const committed = document.createElement('canvas');
+    committed.width = image.width;
+    committed.height = image.height;
+    const committedCtx = committed.getContext('2d')!;
+
+    const renderCommitted = () => {
+      committedCtx.drawImage(image, 0, 0);
+      annotations.forEach((annotation) => drawAnnotation(committedCtx, annotation, lineWidth));
+      render();
+    };
+
+    const render = () => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(committed, 0, 0);
+      if (draft) drawAnnotation(ctx, draft, lineWidth, true);
+    };
+
+    function updateToolbar() {
+      toolButtons.forEach(({ value, button }) => {
+        button.style.outline = value === tool ? '2px solid #4a90e2' : 'none';
+      });
+      colorButtons.forEach(({ value, button }) => {
+        button.style.outline = value === color ? '2px solid #4a90e2' : 'none';
+      });
+      undoBtn.disabled = annotations.length === 0;
+      undoBtn.style.opacity = undoBtn.disabled ? '0.5' : '1';
+    }
+
+    const commit = (annotation: Annotation) => {
+      annotations.push(annotation);
+      renderCommitted();
+      updateToolbar();
+    };
+
+    const undo = () => {
+      annotations.pop();
+      renderCommitted();
+      updateToolbar();
+    };
+
+    const toImagePoint = (e: PointerEvent): Point => {
+      const rect = canvas.getBoundingClientRect();
+      return {
+        x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+        y: ((e.clientY - rect.top) * canvas.height) / rect.height,
+      };
+    };
+
+    const addTextLabel = (e: PointerEvent) => {
+      const at = toImagePoint(e);
+      const canvasRect = canvas.getBoundingClientRect();
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.placeholder = 'Label';
+      input.style.cssText = `
+        position: absolute;
+        left: ${e.clientX - canvasRect.left}px;
+        top: ${e.clientY - canvasRect.top}px;
+        width: 160px;
+        padding: 2px 4px;
+        border: 1px solid ${color};
+        background: white;
+        color: #333;
+        font: 13px system-ui, -apple-system, sans-serif;
+      `;
+      let done = false;
+      const finish = (keep: boolean) => {
+        if (done) return;
+        done = true;
+        const text = input.value.trim();
+        input.remove();
+        if (keep && text) commit({ tool: 'text', color, at, text });
+        root.focus();
+      };
+      input.addEventListener('keydown', (event) => {
+        event.stopPropagation();
+        if (event.key === 'Enter') finish(true);
+        if (event.key === 'Escape') finish(false);
+      });
+      input.addEventListener('blur', () => finish(true));
+      frame.appendChild(input);
+      // Focus after the pointer events of this click, which would otherwise blur the input
+      setTimeout(() => input.focus(), 0);
+    };
+
+    canvas.addEventListener('pointerdown', (e) => {
+      if (e.button !== 0) return;
+      e.preventDefault();
+      if (tool === 'text') {
+        addTextLabel(e);
+        return;
+      }
+      const point = toImagePoint(e);
+      canvas.setPointerCapture(e.pointerId);
+      draft =
+        tool === 'pen' ? { tool, color, points: [point] } : { tool, color, from: point, to: point };
+      render();
+    });
+
+    canvas.addEventListener('pointermove', (e) => {
+      if (!draft) return;
+      const point = toImagePoint(e);
+      if (draft.tool === 'pen') {
+        draft.points.push(point);
+      } else if (draft.tool !== 'text') {
+        draft.to = point;
+      }
+      render();
+    });
+
+    const endStroke = () => {
+      if (!draft) return;
+      const finished = draft;
+      draft = null;
+      const isEmpty =
+        finished.tool === 'pen'
+          ? finished.points.length < 2
+          : finished.tool !== 'text' &&
+            Math.abs(finished.to.x - finished.from.x) < 2 &&
+            Math.abs(finished.to.y - finished.from.y) < 2;
+      if (isEmpty) {
+        render();
+      } else {
+        commit(finished);
+      }
+    };
+    canvas.addEventListener('pointerup', endStroke);
+    canvas.addEventListener('pointercancel', endStroke);
+
+    const close = (result: string | null) => {
+      root.remove();
+      isOpen = false;
+      resolve(result);
+    };
+
+    undoBtn.addEventListener('click', undo);
+    cancelBtn.addEventListener('click', () => close(null));
+    saveBtn.addEventListener('click', () => {
+      close(annotations.length > 0 ? committed.toDataURL('image/png') : dataUrl);
+    });
+
+    root.addEventListener('keydown', (e) => {
+      e.stopPropagation();
+      if (e.key === 'Escape') {
+        close(null);
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        undo();
+      }
+    });
+    // Keep page scripts and the capture shortcuts from reacting to the editor
+    ['mousedown', 'mouseup', 'click', 'mouseover', 'mouseout'].forEach((type) => {
+      root.addEventListener(type, (e) => e.stopPropagation());
+    });
+
+    document.body.appendChild(root);
+    renderCommitted();
+    updateToolbar();
+    root.focus({ preventScroll: true });
+  });
+}
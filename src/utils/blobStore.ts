@@ -0,0 +1,165 @@
+/**
+ * IndexedDB-backed store for image and screenshot binaries
+ *
+ * Captured media is kept out of storage.local so that saving the item list stays cheap.
+ * Items reference their binary through a `blob-ref:<id>` string in `CapturedItem.content`, and
+ * links their preview image through one in the preview's `imageRef`.
+ * The database lives on the extension origin, so the background and sidebar share it.
+ */
+import { CapturedItem } from '../types';
+import { StorageError } from '../types/errors';
+
+const DB_NAME = 'notesCollectorBlobs';
+const DB_VERSION = 1;
+const STORE_NAME = 'blobs';
+const BLOB_REF_PREFIX = 'blob-ref:';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and lazily creates) the blob database
+ */
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new StorageError(request.error?.message || 'Failed to open blob database'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the blob object store
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(new StorageError(tx.error?.message || 'Blob storage failed'));
+    tx.onabort = () => reject(new StorageError(tx.error?.message || 'Blob storage aborted'));
+  });
+}
+
+/**
+ * Checks whether item content is a reference into the blob store
+ */
+export function isBlobRef(content: string | undefined): content is string {
+  return !!content && content.startsWith(BLOB_REF_PREFIX);
+}
+
+/**
+ * Builds the content reference for a stored blob
+ */
+export function toBlobRef(id: string): string {
+  return `${BLOB_REF_PREFIX}${id}`;
+}
+
+/**
+ * Extracts the blob ID from a content reference
+ */
+export function getBlobId(ref: string): string {
+  return ref.slice(BLOB_REF_PREFIX.length);
+}
+
+/**
+ * Stores a blob under the given ID, replacing any existing one
+ */
+export async function putBlob(id: string, blob: Blob): Promise<void> {
+  await runRequest('readwrite', (store) => store.put(blob, id));
+}
+
+/**
+ * Loads a blob by ID
+ * @returns The blob, or null if it does not exist
+ */
+export async function getBlob(id: string): Promise<Blob | null> {
+  const result = await runRequest<unknown>('readonly', (store) => store.get(id));
+  return result instanceof Blob ? result : null;
+}
+
+/**
+ * Deletes the blobs with the given IDs
+ */
+export async function deleteBlobs(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDb();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    ids.forEach((id) => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(new StorageError(tx.error?.message || 'Failed to delete blobs'));
+  });
+}
+
+/**
+ * Lists what an item references in the blob store: its content and its link preview image
+ */
+export function getItemBlobRefs(item: CapturedItem): string[] {
+  const previewRef = 'preview' in item.metadata ? item.metadata.preview?.imageRef : undefined;
+  return [item.content, previewRef].filter(isBlobRef);
+}
+
+/**
+ * Deletes the blobs referenced by the given item contents, ignoring non-references
+ */
+export async function deleteReferencedBlobs(contents: string[]): Promise<void> {
+  await deleteBlobs(contents.filter(isBlobRef).map(getBlobId));
+}
+
+/**
+ * Decodes a data URL into a Blob
+ */
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, payload = ''] = dataUrl.split(',', 2);
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'application/octet-stream';
+
+  if (header.includes(';base64')) {
+    const binary = atob(payload);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+    return new Blob([bytes], { type: mimeType });
+  }
+
+  return new Blob([decodeURIComponent(payload)], { type: mimeType });
+}
+
+/**
+ * Encodes a Blob as a data URL
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('Failed to convert blob to data URL'));
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * Resolves item content to something usable as an image source outside the extension
+ * (for example pdfmake). Blob references become data URLs; other content is returned as-is.
+ * @returns The resolved content, or null if the referenced blob is missing
+ */
+export async function resolveContentToDataUrl(content: string): Promise<string | null> {
+  if (!isBlobRef(content)) return content;
+  const blob = await getBlob(getBlobId(content));
+  return blob ? blobToDataUrl(blob) : null;
+}
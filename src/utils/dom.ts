@@ -3,24 +3,42 @@
  */
 
 /**
- * Escapes HTML characters to prevent XSS
+ * Escapes HTML characters to prevent XSS. Quotes are escaped too, so the result
+ * is also safe inside attribute values.
  * @param text The text to escape
  * @returns Escaped HTML string
  */
 export function escapeHtml(text: string): string {
   const div = document.createElement('div');
   div.textContent = text;
-  return div.innerHTML;
+  return div.innerHTML.replace(/"/g, '&quot;').replace(/'/g, '&#39;');
 }
 
 /**
- * Checks if an element is a link or an image
+ * Checks if an element is a link or an image. Inline SVGs and canvases are found by
+ * findGraphic, which tells charts from icons.
  * @param element The element to check
  * @returns true if the element is capturable
  */
-export function isCapturableElement(element: HTMLElement): boolean {
+export function isCapturableElement(element: Element): boolean {
   if (!element) return false;
   if (element.tagName === 'IMG' || element.closest('img')) return true;
   if (element.tagName === 'A' || element.closest('a')) return true;
   return false;
 }
+
+/**
+ * Reads the first non-empty meta tag among the given names, OpenGraph properties or itemprops
+ * @param doc The document to read, such as the current page or a fetched one
+ * @returns The tag's content with whitespace collapsed, or undefined if none is set
+ */
+export function getMetaContent(doc: Document, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const meta = doc.querySelector<HTMLMetaElement>(
+      `meta[property="${key}"], meta[name="${key}"], meta[itemprop="${key}"]`
+    );
+    const content = meta?.content.replace(/\s+/g, ' ').trim();
+    if (content) return content;
+  }
+  return undefined;
+}
@@ -0,0 +1,204 @@
+/**
+ * Minimal Markdown support for item notes
+ *
+ * Notes are short, so only a small subset is recognized: headings, paragraphs, bullet and
+ * numbered lists, block quotes, fenced code, and inline bold, italic, code, links and
+ * backslash escapes. Parsing produces a small AST that the sidebar (HTML) and PDF renderers
+ * share. Formatted text captures are stored in the same subset.
+ */
+import { escapeHtml } from './dom';
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'bold'; children: InlineNode[] }
+  | { type: 'italic'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'heading'; level: number; children: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'quote'; children: InlineNode[] }
+  | { type: 'code'; text: string };
+
+// Underscores between word characters, as in snake_case names, do not start or end emphasis
+const INLINE_PATTERN =
+  /\\([\\`*_[\]()#+\-.!>])|\*\*(.+?)\*\*|(?<!\w)__(.+?)__(?!\w)|\*(.+?)\*|(?<!\w)_(.+?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/;
+
+/**
+ * Only web and mail links are kept; anything else (javascript:, data:) is rendered as text
+ */
+export function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href);
+}
+
+/**
+ * Parses inline formatting within a single block
+ */
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let rest = text;
+
+  while (rest) {
+    const match = INLINE_PATTERN.exec(rest);
+    if (!match) {
+      nodes.push({ type: 'text', text: rest });
+      break;
+    }
+
+    if (match.index > 0) nodes.push({ type: 'text', text: rest.slice(0, match.index) });
+
+    const [
+      whole,
+      escaped,
+      boldStarText,
+      boldUnderscoreText,
+      starText,
+      underscoreText,
+      codeText,
+      linkText,
+      href,
+    ] = match;
+    const boldText = boldStarText ?? boldUnderscoreText;
+    const italicText = starText ?? underscoreText;
+    if (escaped !== undefined) {
+      nodes.push({ type: 'text', text: escaped });
+    } else if (boldText !== undefined) {
+      nodes.push({ type: 'bold', children: parseInline(boldText) });
+    } else if (italicText !== undefined) {
+      nodes.push({ type: 'italic', children: parseInline(italicText) });
+    } else if (codeText !== undefined) {
+      nodes.push({ type: 'code', text: codeText });
+    } else if (isSafeHref(href)) {
+      nodes.push({ type: 'link', href, children: parseInline(linkText) });
+    } else {
+      nodes.push({ type: 'text', text: linkText });
+    }
+
+    rest = rest.slice(match.index + whole.length);
+  }
+
+  return nodes;
+}
+
+/**
+ * Parses Markdown source into blocks
+ */
+export function parseMarkdown(source: string): BlockNode[] {
+  const blocks: BlockNode[] = [];
+  const lines = source.replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (trimmed.startsWith('```')) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (!trimmed) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(trimmed);
+    if (heading) {
+      flushParagraph();
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2]),
+      });
+      continue;
+    }
+
+    const listItem = /^([-*+]|\d+[.)])\s+(.*)$/.exec(trimmed);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(parseInline(listItem[2]));
+      } else {
+        blocks.push({ type: 'list', ordered, items: [parseInline(listItem[2])] });
+      }
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      flushParagraph();
+      const text = trimmed.replace(/^>\s?/, '');
+      const previous = blocks[blocks.length - 1];
+      if (previous?.type === 'quote') {
+        previous.children.push({ type: 'text', text: ' ' }, ...parseInline(text));
+      } else {
+        blocks.push({ type: 'quote', children: parseInline(text) });
+      }
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+
+  flushParagraph();
+  return blocks;
+}
+
+function inlineToHtml(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text);
+        case 'bold':
+          return `<strong>${inlineToHtml(node.children)}</strong>`;
+        case 'italic':
+          return `<em>${inlineToHtml(node.children)}</em>`;
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`;
+        case 'link':
+          return `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${inlineToHtml(node.children)}</a>`;
+      }
+    })
+    .join('');
+}
+
+/**
+ * Renders Markdown source as HTML. All text is escaped, so the result is safe to insert.
+ */
+export function renderMarkdownHtml(source: string): string {
+  return parseMarkdown(source)
+    .map((block) => {
+      switch (block.type) {
+        case 'paragraph':
+          return `<p>${inlineToHtml(block.children)}</p>`;
+        case 'heading':
+          return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+        case 'list': {
+          const tag = block.ordered ? 'ol' : 'ul';
+          const items = block.items.map((item) => `<li>${inlineToHtml(item)}</li>`).join('');
+          return `<${tag}>${items}</${tag}>`;
+        }
+        case 'quote':
+          return `<blockquote>${inlineToHtml(block.children)}</blockquote>`;
+        case 'code':
+          return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+      }
+    })
+    .join('');
+}
@@ -3,7 +3,7 @@ import { StorageQuotaError, StorageError, ItemLimitError } from '../types/errors
 
 // Constants
 const STORAGE_QUOTA_WARNING_THRESHOLD = 0.8; // Warn at 80% usage
-const MAX_ITEMS = 1000; // Maximum number of items allowed
+export const MAX_ITEMS = 1000; // Maximum number of items allowed
 const ITEM_LIMIT_WARNING = 500; // Warn at 500 items
 
 /**
@@ -37,15 +37,16 @@ export async function getStorageInfo(): Promise<StorageInfo> {
     console.warn('Failed to get storage size, using estimate', error);
   }
 
-  // Get item count
+  // Get item count across all collections (or the legacy single list)
   const STORAGE_KEY = 'notesCollectorData';
   const data = (await browser.storage.local.get(STORAGE_KEY)) as Record<
     string,
-    { items: unknown[] } | undefined
+    { items?: unknown[]; collections?: { items: unknown[] }[] } | undefined
   >;
   const storageData = data[STORAGE_KEY];
-  const items = storageData?.items || [];
-  const itemCount = items.length;
+  const itemCount = storageData?.collections
+    ? storageData.collections.reduce((sum, c) => sum + c.items.length, 0)
+    : storageData?.items?.length || 0;
 
   // Firefox doesn't provide quota info via the storage API
   // QUOTA_BYTES is deprecated, so we estimate based on typical limits
@@ -0,0 +1,57 @@
+/**
+ * Helpers for captured tables: laying out spanned cells on a grid and converting to CSV
+ */
+import { TableCell } from '../types';
+
+// A grid position holds the cell that starts there, or null if it is covered by a span
+export type TableGrid = (TableCell | null)[][];
+
+/**
+ * Places cells on a rectangular grid, the way a browser lays out colspan and rowspan
+ */
+export function toGrid(rows: TableCell[][]): TableGrid {
+  const grid: TableGrid = rows.map(() => []);
+  // Positions already covered by a rowspan from an earlier row
+  const covered = rows.map(() => new Set<number>());
+
+  rows.forEach((cells, r) => {
+    let column = 0;
+    cells.forEach((cell) => {
+      while (covered[r].has(column)) column++;
+      const colSpan = Math.max(1, cell.colSpan || 1);
+      const rowSpan = Math.max(1, Math.min(cell.rowSpan || 1, rows.length - r));
+      for (let dr = 0; dr < rowSpan; dr++) {
+        for (let dc = 0; dc < colSpan; dc++) {
+          covered[r + dr].add(column + dc);
+          grid[r + dr][column + dc] = dr === 0 && dc === 0 ? cell : null;
+        }
+      }
+      column += colSpan;
+    });
+  });
+
+  const width = Math.max(0, ...grid.map((row) => row.length));
+  return grid.map((row) => Array.from({ length: width }, (_, c) => row[c] ?? null));
+}
+
+/**
+ * Counts the leading rows made up only of header cells
+ */
+export function countHeaderRows(rows: TableCell[][]): number {
+  const index = rows.findIndex((row) => row.length === 0 || !row.every((cell) => cell.header));
+  return index === -1 ? rows.length : index;
+}
+
+function toCsvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converts a table to CSV. A spanned cell's text goes in its first position; the positions
+ * it covers are left empty.
+ */
+export function tableToCsv(rows: TableCell[][]): string {
+  return toGrid(rows)
+    .map((row) => row.map((cell) => toCsvField(cell?.text ?? '')).join(','))
+    .join('\r\n');
+}
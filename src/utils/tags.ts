@@ -0,0 +1,32 @@
+/**
+ * Tag utilities for Notes Collector extension
+ */
+
+/**
+ * Normalizes tags: trims, drops a leading "#", lowercases and removes empties and duplicates
+ * @param tags The raw tags
+ * @returns The normalized tags, in their original order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = tags
+    .map((tag) => tag.trim().replace(/^#+/, '').trim().toLowerCase())
+    .filter((tag) => tag.length > 0);
+  return [...new Set(normalized)];
+}
+
+/**
+ * Parses comma-separated user input into normalized tags
+ * @param input Text such as "design, #research"
+ */
+export function parseTagInput(input: string): string[] {
+  return normalizeTags(input.split(','));
+}
+
+/**
+ * Checks whether an item carries every one of the given tags
+ * @param item Anything with optional tags, such as a CapturedItem
+ * @param tags The required tags; an empty list matches every item
+ */
+export function hasAllTags(item: { tags?: string[] }, tags: string[]): boolean {
+  return tags.every((tag) => item.tags?.includes(tag));
+}
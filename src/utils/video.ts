@@ -0,0 +1,58 @@
+/**
+ * Video timestamp utilities for Notes Collector extension
+ */
+
+/**
+ * Formats a position in a video the way players show it
+ * @param seconds Position in seconds
+ * @returns e.g. "2:03" or "1:02:03"
+ */
+export function formatVideoTime(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+/**
+ * Builds a link that opens a video at a given moment
+ * @param pageUrl The page the video plays on
+ * @param videoSrc The video's own source, which is a blob: URL for streamed players
+ * @param seconds Position in the video
+ */
+export function getVideoDeepLink(pageUrl: string, videoSrc: string, seconds: number): string {
+  const time = Math.max(0, Math.floor(seconds));
+  let url: URL;
+  try {
+    url = new URL(pageUrl);
+  } catch {
+    return pageUrl;
+  }
+  const host = url.hostname.replace(/^(www|m)\./, '');
+
+  if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    // Embeds and shorts are linked through the watch page, which is the one that reads t
+    const id = url.pathname.match(/^\/(?:embed|shorts|live)\/([\w-]+)/)?.[1];
+    const link = id ? new URL(`https://www.youtube.com/watch?v=${id}`) : url;
+    link.searchParams.set('t', `${time}s`);
+    return link.href;
+  }
+  if (host === 'youtu.be') {
+    url.searchParams.set('t', `${time}s`);
+    return url.href;
+  }
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    const id = url.pathname.match(/(?:^|\/video)\/(\d+)/)?.[1];
+    const link = id ? new URL(`https://vimeo.com/${id}`) : url;
+    link.hash = `t=${time}s`;
+    return link.href;
+  }
+
+  // A video file plays from a media fragment in any browser
+  if (/^https?:/.test(videoSrc)) return `${videoSrc.split('#')[0]}#t=${time}`;
+
+  // Most other players read t from the query string; pages without one ignore it
+  url.searchParams.set('t', String(time));
+  return url.href;
+}